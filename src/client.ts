@@ -1,10 +1,70 @@
-import { RPCError } from './error'
-import type { Message, Payload, RequestMessage } from './jsonrpc'
-import { jsonrpc } from './jsonrpc'
-import type { Service } from './service'
+import { AbortError, ClosedError, RPCError, TimeoutError } from './error'
+import type {
+  ErrorMessage,
+  Id,
+  Message,
+  Payload,
+  RequestMessage,
+} from './jsonrpc'
+import {
+  cancelRequestMethod,
+  eventMethod,
+  jsonrpc,
+  progressMethod,
+  streamMethod,
+  streamPullMethod,
+  unsubscribeMethod,
+} from './jsonrpc'
+import { createProxy, type ProxyClient } from './proxy'
+import type { ServiceSchema } from './schema'
+import { validate } from './schema'
+import type { MethodError, Service } from './service'
+import type { Topic, TopicEvent } from './topic'
 
 type StringKeyOf<T> = Extract<keyof T, string>
 
+type Mutable<T> = { -readonly [K in keyof T]: T[K] }
+
+type StreamKeyOf<T> = {
+  [K in StringKeyOf<T>]: T[K] extends (
+    ...args: never[]
+  ) => AsyncIterable<unknown>
+    ? K
+    : never
+}[StringKeyOf<T>]
+
+type TopicKeyOf<T> = {
+  [K in StringKeyOf<T>]: T[K] extends (...args: never[]) => Topic<unknown>
+    ? K
+    : never
+}[StringKeyOf<T>]
+
+/**
+ * The result of calling a method. Methods that stream values resolve with an
+ * array of all of them when called with `call()`.
+ *
+ * @template R - The method's return type
+ */
+export type CallResult<R> = R extends AsyncIterable<infer V> ? V[] : R
+
+/**
+ * The type of values streamed by a method.
+ *
+ * @template R - The method's return type
+ */
+export type StreamValue<R> = R extends AsyncIterable<infer V> ? V : never
+
+/**
+ * The outcome of a call made with `tryCall()`, either its value or the error
+ * it failed with.
+ *
+ * @template V - Type of the call's value
+ * @template E - Type of errors declared for the method
+ */
+export type Result<V, E = never> =
+  | { ok: true; value: V }
+  | { ok: false; error: E | RPCError }
+
 /**
  * RPC client interface for making calls to a service.
  *
@@ -22,7 +82,81 @@ export type Client<T extends Service> = {
   call<K extends StringKeyOf<T>>(
     name: K,
     ...params: Parameters<T[K]>
-  ): Promise<ReturnType<T[K]>>
+  ): Promise<CallResult<ReturnType<T[K]>>>
+
+  /**
+   * Makes an RPC call like `call()`, but resolves with a `Result` rather than
+   * rejecting when the call fails with an `RPCError`, including the errors
+   * declared for the method with `Throws`. Other errors, such as transport
+   * failures, still reject.
+   *
+   * @template K - The method name from the service
+   * @param name - The method name to call
+   * @param params - Parameters to pass to the method
+   * @returns Promise that resolves to the method's return value or error
+   *
+   * @example
+   * ```typescript
+   * const result = await client.tryCall('getUser', { id: '1' })
+   * if (result.ok) {
+   *   console.log(result.value.name)
+   * } else if (result.error instanceof NotFoundError) {
+   *   console.log('No user', result.error.data.id)
+   * }
+   * ```
+   */
+  tryCall<K extends StringKeyOf<T>>(
+    name: K,
+    ...params: Parameters<T[K]>
+  ): Promise<Result<CallResult<ReturnType<T[K]>>, MethodError<T[K]>>>
+
+  /**
+   * Calls a method that returns an `AsyncIterable`, and iterates over the
+   * values as the server produces them. The request is sent when iteration
+   * begins. The server only sends values as fast as they are consumed, and
+   * breaking out of iteration early cancels the request.
+   *
+   * @template K - The method name from the service
+   * @param name - The method name to call
+   * @param params - Parameters to pass to the method
+   * @returns Async iterable of the streamed values
+   *
+   * @example
+   * ```typescript
+   * for await (const line of client.stream('tailLog', { file: 'app.log' })) {
+   *   console.log(line)
+   * }
+   * ```
+   */
+  stream<K extends StreamKeyOf<T>>(
+    name: K,
+    ...params: Parameters<T[K]>
+  ): AsyncIterable<StreamValue<ReturnType<T[K]>>>
+
+  /**
+   * Subscribes to a topic, calling the listener with each event the server
+   * emits until unsubscribed or the client stops.
+   *
+   * @template K - The topic name from the service
+   * @param name - The topic name to subscribe to
+   * @param args - Parameters to pass to the topic, followed by the listener
+   * @returns Promise that resolves once subscribed to a function that
+   *          unsubscribes
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = await client.subscribe('messages', { room: 'lobby' }, (message) => {
+   *   console.log(message.text)
+   * })
+   * ```
+   */
+  subscribe<K extends TopicKeyOf<T>>(
+    name: K,
+    ...args: [
+      ...params: Parameters<T[K]>,
+      listener: (event: TopicEvent<ReturnType<T[K]>>) => void,
+    ]
+  ): Promise<() => void>
 
   /**
    * Sends a notification (fire-and-forget call with no response).
@@ -45,33 +179,259 @@ export type Client<T extends Service> = {
   createBatch(): Batch<T>
 
   /**
-   * Stops the client and cleans up resources.
+   * Returns a view of this client that applies the given options to every
+   * call and notification made through it, including batches it creates.
+   *
+   * @param opts - Options to apply, merged over any already set
+   * @returns A client sharing this client's connection
+   *
+   * @example
+   * ```typescript
+   * const result = await client.withOptions({ timeout: 1000 }).call('add', { x: 1, y: 2 })
+   * ```
+   */
+  withOptions(opts: CallOptions): Client<T>
+
+  /**
+   * An object with a function for each method, as an alternative to `call()`
+   * and `notify()`. Methods with dotted names like `users.get` are nested.
+   *
+   * @example
+   * ```typescript
+   * const result = await client.proxy.add({ x: 1, y: 2 })
+   * await client.proxy.users.get({ id: 1 })
+   * await client.proxy.log.notify({ message: 'Hello' })
+   * ```
+   */
+  readonly proxy: ProxyClient<T>
+
+  /**
+   * The current lifecycle state of the client. Once no longer `open`, all
+   * calls, notifications and batch flushes fail with a `ClosedError`.
+   */
+  readonly state: ClientState
+
+  /**
+   * Stops the client and cleans up resources. Calls still awaiting a reply
+   * are rejected with a `ClosedError`.
    */
   stop(): void
 }
 
+/**
+ * Lifecycle state of a client.
+ */
+export type ClientState = 'open' | 'closing' | 'closed'
+
 /**
  * Batched RPC operations for efficient bulk requests.
  *
  * @template T - The service interface defining available methods
  */
-export type Batch<T extends Service> = Pick<Client<T>, 'call' | 'notify'> & {
+export type Batch<T extends Service> = Pick<
+  Client<T>,
+  'call' | 'tryCall' | 'notify'
+> & {
+  /**
+   * Returns a view of this batch that applies the given options to every
+   * call and notification added through it.
+   *
+   * @param opts - Options to apply, merged over any already set
+   * @returns A batch sharing this batch's queue
+   */
+  withOptions(opts: CallOptions): Batch<T>
+
+  /**
+   * An object with a function for each method, adding calls and
+   * notifications to this batch.
+   */
+  readonly proxy: ProxyClient<T>
+
   /**
    * Sends all batched calls and notifications at once.
-   * Must be called to actually execute the batched operations.
+   * Must be called to actually execute the batched operations. Waits for
+   * async interceptors of the batched calls to add their messages first.
    *
    * @returns Promise that resolves when the outgoing batch has been sent.
    */
   flush(): Promise<void>
 }
 
+/**
+ * Options for individual calls and notifications.
+ */
+export type CallOptions = {
+  /**
+   * Milliseconds to wait for a reply before rejecting with a `TimeoutError`.
+   * For batched calls the timer starts when the call is added to the batch.
+   * For streams it limits how long to wait for each value, and doesn't run
+   * while the consumer is busy with one. Interceptors that send a call again,
+   * such as `createRetryInterceptor`, give each attempt the full timeout.
+   */
+  timeout?: number
+
+  /**
+   * Signal that rejects the call with an `AbortError` when aborted.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Called in order with each progress update the server reports for a call,
+   * before its result resolves.
+   */
+  onProgress?: (value: unknown) => void
+}
+
+/**
+ * State passed along the client interceptor chain for a single call or
+ * notification.
+ */
+export type InterceptorContext = {
+  /** The name of the method being called. */
+  readonly method: string
+
+  /**
+   * The params to send. Interceptors may replace these before calling `next()`.
+   */
+  params: RequestMessage['params']
+
+  /** Whether this is a notification, which receives no reply. */
+  readonly notification: boolean
+
+  /**
+   * The request id of the most recently sent attempt. Undefined for
+   * notifications and before `next()` has been called.
+   */
+  readonly id?: Id
+
+  /**
+   * The call's signal, for interceptors that wait between attempts to stop
+   * waiting once it's aborted.
+   */
+  readonly signal?: AbortSignal
+
+  /**
+   * Milliseconds each attempt waits for a reply, from the call's `timeout`
+   * option or the client's default.
+   */
+  readonly timeout?: number
+}
+
+/**
+ * Client interceptor that wraps outgoing calls and notifications. Calling
+ * `next()` sends the request and resolves with its result, or rejects with an
+ * `RPCError`. Interceptors may change params before calling `next()`, transform
+ * the result or error, or call `next()` again to resend the request with a new
+ * id. A batched call sent again is sent on its own rather than in the batch.
+ *
+ * @example
+ * ```typescript
+ * const logger: Interceptor = async (ctx, next) => {
+ *   const start = performance.now()
+ *   try {
+ *     return await next()
+ *   } finally {
+ *     console.log(ctx.method, ctx.id, performance.now() - start)
+ *   }
+ * }
+ * ```
+ */
+export type Interceptor = (
+  ctx: InterceptorContext,
+  next: () => Promise<unknown>,
+) => Promise<unknown>
+
+/**
+ * Options for creating a client.
+ */
+export type ClientOptions = {
+  /**
+   * Default timeout in milliseconds for every call, overridable per call.
+   */
+  timeout?: number
+
+  /**
+   * Interceptors to run around each call and notification, outermost first.
+   */
+  interceptors?: Interceptor[]
+
+  /**
+   * Validators for method results. Calls with invalid results are rejected
+   * with a -32603 "Invalid result" error, with the validation issues in the
+   * error's data.
+   */
+  schema?: ServiceSchema
+
+  /**
+   * Number of values a streaming method may send ahead of the consumer.
+   * Defaults to 16.
+   */
+  streamWindow?: number
+
+  /**
+   * `RPCError` subclasses to reject calls with, by error code, so that
+   * `instanceof` checks work for errors thrown by the server. The subclass's
+   * constructor isn't called, and the error keeps the message, code and data
+   * sent by the server.
+   *
+   * @example
+   * ```typescript
+   * const client = createWebSocketClient<MyService>(socket, {
+   *   errors: { 404: NotFoundError, 403: ForbiddenError },
+   * })
+   * ```
+   */
+  errors?: Record<number, abstract new (...args: never[]) => RPCError>
+
+  /**
+   * Automatically groups calls and notifications into batches, without
+   * needing `createBatch()`. Pass true to send everything made within the
+   * same tick as one batch, or options to configure batching.
+   */
+  autoBatch?: boolean | AutoBatchOptions
+}
+
+/**
+ * Options for automatic batching.
+ */
+export type AutoBatchOptions = {
+  /**
+   * Milliseconds to wait for more calls before sending a batch. Defaults to 0,
+   * batching calls made within the same tick.
+   */
+  window?: number
+
+  /** Maximum number of messages per batch. Defaults to no limit. */
+  maxSize?: number
+
+  /**
+   * Whether identical calls made while one is still awaiting a reply share
+   * its result rather than being sent again. Calls are identical when they
+   * have the same method, params and timeout. Calls with a `signal` or
+   * `onProgress` option, or with params other than plain JSON values, are
+   * never shared. Defaults to false.
+   */
+  dedupe?: boolean
+}
+
 /**
  * Transport layer abstraction for RPC communication.
  *
- * @param receive - Callback function to handle incoming payloads
+ * @param receive - Callback function to handle incoming payloads, along with
+ *                  optional transport-specific context such as the originating
+ *                  MessageEvent
+ * @param close - Callback for the transport to report that it has closed or
+ *                failed fatally, with an optional error describing why
+ * @param reconnect - Callback for transports that reconnect to report that a
+ *                    new connection replaced a lost one, so the client can
+ *                    restore its subscriptions
  * @returns Object with send function and stop function
  */
-export type Transport = (receive: (payload: Payload) => void) => {
+export type Transport = (
+  receive: (payload: Payload, context?: unknown) => void,
+  close: (error?: unknown) => void,
+  reconnect?: () => void,
+) => {
   /**
    * Sends a payload on this transport.
    *
@@ -83,24 +443,87 @@ export type Transport = (receive: (payload: Payload) => void) => {
   stop: () => void
 }
 
+// Whether a value is made only of JSON's own types, so it round-trips through
+// JSON unchanged
+function isPlainJSON(value: unknown, ancestors = new Set<object>()): boolean {
+  if (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean'
+  ) {
+    return true
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value)
+  }
+  if (typeof value !== 'object' || ancestors.has(value)) {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  if (
+    !Array.isArray(value) &&
+    prototype !== Object.prototype &&
+    prototype !== null
+  ) {
+    return false
+  }
+  ancestors.add(value)
+  const plain = Object.values(value).every((item) =>
+    isPlainJSON(item, ancestors),
+  )
+  ancestors.delete(value)
+  return plain
+}
+
 /**
  * Creates an RPC client using the specified transport.
  *
  * @template T - The service interface defining available methods
  * @param transport - Transport layer for communication
+ * @param clientOpts - Optional client configuration
  * @returns RPC client instance
  */
 export function createClient<T extends Service>(
   transport: Transport,
+  clientOpts?: ClientOptions,
 ): Client<T> {
   const pending = new Map<
     string | number,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    { resolve: (result: any) => void; reject: (error: Error) => void }
+    {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      resolve: (result: any) => void
+      reject: (error: Error) => void
+      progress?: (value: unknown) => void
+      // Restart or stop the timeout, for streams waiting on their consumer
+      restartTimer: () => void
+      stopTimer: () => void
+    }
   >()
 
+  // Receives streamed values for each streaming request
+  const streams = new Map<Id, (value: unknown) => void>()
+
+  // Receives events for each subscribing request
+  const subscriptions = new Map<Id, (event: unknown) => void>()
+
+  // Subscribes again on a new connection, for each active subscription
+  const resubscribers = new Set<() => void>()
+
+  let state: ClientState = 'open'
+
   function onMessage(message: Message) {
-    if ('result' in message) {
+    if ('method' in message) {
+      if (message.method === streamMethod) {
+        const { id, value } = message.params as { id: Id; value: unknown }
+        streams.get(id)?.(value)
+      } else if (message.method === progressMethod) {
+        const { id, value } = message.params as { id: Id; value: unknown }
+        pending.get(id)?.progress?.(value)
+      } else if (message.method === eventMethod) {
+        const { id, event } = message.params as { id: Id; event: unknown }
+        subscriptions.get(id)?.(event)
+      }
+    } else if ('result' in message) {
       const id = message.id
       const result = message.result
       const request = pending.get(id)
@@ -115,50 +538,382 @@ export function createClient<T extends Service>(
         const request = pending.get(id)
         if (request) {
           pending.delete(id)
-          request.reject(new RPCError(error.message, error))
+          request.reject(createError(error))
         }
       }
     }
   }
 
+  // Creates the error for an error reply, using its registered subclass
+  function createError(error: ErrorMessage['error']) {
+    const ErrorClass = clientOpts?.errors?.[error.code]
+    if (!ErrorClass) {
+      return new RPCError(error.message, error)
+    }
+    const instance = Reflect.construct(
+      RPCError,
+      [error.message, error],
+      ErrorClass,
+    ) as RPCError
+    instance.name = ErrorClass.name
+    return instance
+  }
+
+  async function intercept(
+    ctx: InterceptorContext,
+    last: () => Promise<unknown>,
+  ): Promise<unknown> {
+    const interceptors = clientOpts?.interceptors ?? []
+
+    async function dispatch(index: number): Promise<unknown> {
+      if (index < interceptors.length) {
+        return interceptors[index](ctx, () => dispatch(index + 1))
+      }
+      return last()
+    }
+
+    return dispatch(0)
+  }
+
   async function callImpl(
     method: RequestMessage['method'],
     params: RequestMessage['params'],
     send: (message: Message) => void | Promise<void>,
+    opts: CallOptions,
+    beforeSend?: (id: Id) => Promise<void>,
   ) {
-    const id = crypto.randomUUID()
+    const ctx: Mutable<InterceptorContext> = {
+      method,
+      params,
+      notification: false,
+      signal: opts.signal,
+      timeout: opts.timeout ?? clientOpts?.timeout,
+    }
 
-    const promise = new Promise<ReturnType<T[typeof method]>>(
-      (resolve, reject) => {
-        pending.set(id, {
-          resolve,
-          reject,
+    let nextSend = send
+    return intercept(ctx, async () => {
+      const id = crypto.randomUUID()
+      ctx.id = id
+
+      // Any further attempts are sent on their own, even for batched calls
+      const attemptSend = nextSend
+      nextSend = transportSend
+      if (beforeSend) {
+        // Only await when needed, so batched calls are queued synchronously
+        await beforeSend(id)
+      }
+      const result = await request(
+        ctx.method,
+        ctx.params,
+        id,
+        attemptSend,
+        opts,
+      )
+
+      const resultSchema = clientOpts?.schema?.[ctx.method]?.result
+      if (resultSchema) {
+        return validate(resultSchema, result, {
+          code: -32603,
+          message: 'Invalid result',
         })
-      },
-    )
+      }
+      return result
+    }) as Promise<CallResult<ReturnType<T[typeof method]>>>
+  }
 
-    await send({
-      jsonrpc,
-      method,
-      params,
-      id,
+  async function request(
+    method: RequestMessage['method'],
+    params: RequestMessage['params'],
+    id: Id,
+    send: (message: Message) => void | Promise<void>,
+    opts: CallOptions,
+  ) {
+    const { timeout = clientOpts?.timeout, signal, onProgress } = opts
+    if (state !== 'open') {
+      throw new ClosedError()
+    }
+    if (signal?.aborted) {
+      throw new AbortError()
+    }
+
+    const promise = new Promise<unknown>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+
+      function onAbort() {
+        giveUp(new AbortError())
+      }
+
+      function settle() {
+        pending.delete(id)
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+      }
+
+      function fail(error: Error) {
+        settle()
+        reject(error)
+      }
+
+      // Stop waiting for the reply, and let the server know it can stop too
+      function giveUp(error: Error) {
+        fail(error)
+        sendProtocolNotification(cancelRequestMethod, { id })
+      }
+
+      function startTimer() {
+        if (timeout != null) {
+          clearTimeout(timer)
+          timer = setTimeout(() => {
+            giveUp(new TimeoutError(timeout))
+          }, timeout)
+        }
+      }
+
+      startTimer()
+      signal?.addEventListener('abort', onAbort)
+
+      pending.set(id, {
+        resolve(result) {
+          settle()
+          resolve(result)
+        },
+        reject: fail,
+        progress: onProgress,
+        restartTimer: startTimer,
+        stopTimer() {
+          clearTimeout(timer)
+        },
+      })
     })
 
+    // The reply may settle before sending completes, so mark it as handled early
+    void promise.catch(() => {})
+
+    try {
+      await send({
+        jsonrpc,
+        method,
+        params,
+        id,
+      })
+    } catch (error) {
+      pending.get(id)?.reject(error as Error)
+    }
+
     return promise
   }
 
+  async function tryCallImpl(
+    method: RequestMessage['method'],
+    params: RequestMessage['params'],
+    send: (message: Message) => void | Promise<void>,
+    opts: CallOptions,
+  ): Promise<Result<never, never>> {
+    try {
+      return {
+        ok: true,
+        value: (await callImpl(method, params, send, opts)) as never,
+      }
+    } catch (error) {
+      if (error instanceof RPCError) {
+        return { ok: false, error }
+      }
+      throw error
+    }
+  }
+
   async function notifyImpl(
     method: RequestMessage['method'],
     params: RequestMessage['params'],
     send: (message: Message) => void | Promise<void>,
+    opts: CallOptions,
   ) {
-    await send({
-      jsonrpc,
+    const ctx: InterceptorContext = {
       method,
       params,
+      notification: true,
+      signal: opts.signal,
+      timeout: opts.timeout ?? clientOpts?.timeout,
+    }
+
+    await intercept(ctx, async () => {
+      if (state !== 'open') {
+        throw new ClosedError()
+      }
+      if (opts.signal?.aborted) {
+        throw new AbortError()
+      }
+      await send({
+        jsonrpc,
+        method: ctx.method,
+        params: ctx.params,
+      })
     })
   }
 
+  // Sends a notification used by the protocol itself, ignoring any failure
+  function sendProtocolNotification(
+    method: string,
+    params: RequestMessage['params'],
+  ) {
+    if (state === 'open') {
+      void (async () => {
+        await transportSend({ jsonrpc, method, params })
+      })().catch(() => {})
+    }
+  }
+
+  async function* streamImpl(
+    method: RequestMessage['method'],
+    params: RequestMessage['params'],
+    opts: CallOptions,
+  ): AsyncGenerator<unknown, void> {
+    const windowSize = clientOpts?.streamWindow ?? 16
+    const queue: unknown[] = []
+    let wake: (() => void) | undefined
+    let id: Id | undefined
+    let outcome: { ok: true } | { ok: false; error: unknown } | undefined
+    let streamed = false
+
+    const result = callImpl(
+      method,
+      params,
+      transportSend,
+      opts,
+      async (attemptId) => {
+        if (id !== undefined) {
+          streams.delete(id)
+        }
+        id = attemptId
+        streams.set(id, (value) => {
+          streamed = true
+          queue.push(value)
+          wake?.()
+        })
+        // Grant the initial window before sending the request
+        await transportSend({
+          jsonrpc,
+          method: streamPullMethod,
+          params: { id, count: windowSize },
+        })
+      },
+    )
+    void result.then(
+      (value) => {
+        // Servers without sessions, such as over HTTP, can't stream and reply
+        // with all the values at once instead
+        if (!streamed && Array.isArray(value)) {
+          queue.push(...value)
+        }
+        outcome = { ok: true }
+        wake?.()
+      },
+      (error: unknown) => {
+        outcome = { ok: false, error }
+        wake?.()
+      },
+    )
+
+    let consumed = 0
+    try {
+      for (;;) {
+        if (queue.length > 0) {
+          // Don't time out while the consumer is busy with a value
+          pending.get(id!)?.stopTimer()
+          yield queue.shift()
+
+          // The consumer is ready for more, so let the server send more
+          consumed += 1
+          if (consumed >= windowSize / 2 && !outcome) {
+            sendProtocolNotification(streamPullMethod, { id, count: consumed })
+            consumed = 0
+          }
+        } else if (outcome) {
+          if (!outcome.ok) {
+            throw outcome.error
+          }
+          return
+        } else {
+          pending.get(id!)?.restartTimer()
+          await new Promise<void>((resolve) => {
+            wake = resolve
+          })
+          wake = undefined
+        }
+      }
+    } finally {
+      if (id !== undefined) {
+        streams.delete(id)
+        if (!outcome) {
+          // Stopped early, so cancel the request
+          sendProtocolNotification(cancelRequestMethod, { id })
+          pending.get(id)?.reject(new AbortError())
+        }
+      }
+    }
+  }
+
+  async function subscribeImpl(
+    method: RequestMessage['method'],
+    args: unknown[],
+    opts: CallOptions,
+  ): Promise<() => void> {
+    const listener = args.pop() as (event: unknown) => void
+    const params = args[0] as RequestMessage['params']
+    let id: Id | undefined
+
+    function subscribe() {
+      return callImpl(
+        method,
+        params,
+        transportSend,
+        opts,
+        async (attemptId) => {
+          if (id !== undefined) {
+            subscriptions.delete(id)
+          }
+          id = attemptId
+          subscriptions.set(id, listener)
+        },
+      )
+    }
+
+    try {
+      await subscribe()
+    } catch (error) {
+      if (id !== undefined) {
+        subscriptions.delete(id)
+      }
+      throw error
+    }
+
+    // The server forgets subscriptions with the connection, so subscribe on
+    // new connections too, dropping the subscription if that fails
+    function resubscribe() {
+      subscribe().catch(() => {
+        subscriptions.delete(id!)
+        resubscribers.delete(resubscribe)
+      })
+    }
+    resubscribers.add(resubscribe)
+
+    return () => {
+      resubscribers.delete(resubscribe)
+      if (subscriptions.delete(id!)) {
+        sendProtocolNotification(unsubscribeMethod, { id })
+      }
+    }
+  }
+
+  // Called by the transport when a new connection replaced a lost one
+  function reconnect() {
+    if (state === 'open') {
+      for (const resubscribe of resubscribers) {
+        resubscribe()
+      }
+    }
+  }
+
   // Called by the transport when a reply is received
   function receive(payload: Payload) {
     if (Array.isArray(payload)) {
@@ -168,42 +923,235 @@ export function createClient<T extends Service>(
     }
   }
 
-  const { send, stop } = transport(receive)
+  function shutdown(error?: unknown) {
+    if (state !== 'open') {
+      return
+    }
+    state = 'closing'
+    // Queued messages fail to send now that the client is closing
+    flushQueue()
+    const closedError = new ClosedError(error)
+    for (const request of pending.values()) {
+      request.reject(closedError)
+    }
+    subscriptions.clear()
+    resubscribers.clear()
+    transportStop()
+    state = 'closed'
+  }
 
-  return {
-    call(method, params) {
-      return callImpl(method, params, send)
-    },
+  const autoBatch =
+    clientOpts?.autoBatch === true ? {} : clientOpts?.autoBatch || undefined
 
-    notify(method, params) {
-      return notifyImpl(method, params, send)
-    },
+  // Messages waiting to be sent in the next automatic batch
+  let queued:
+    | {
+        messages: Message[]
+        sent: Promise<void>
+        timer: ReturnType<typeof setTimeout>
+        start: () => void
+      }
+    | undefined
 
-    createBatch() {
-      const batch: Message[] = []
-      function addToBatch(message: Message) {
-        batch.push(message)
+  function flushQueue() {
+    if (queued) {
+      clearTimeout(queued.timer)
+      queued.start()
+      queued = undefined
+    }
+  }
+
+  // Adds a message to the next automatic batch, resolving once it's sent
+  function queueSend(message: Message) {
+    if (!queued) {
+      const messages: Message[] = []
+      let start!: () => void
+      const sent = new Promise<void>((resolve) => {
+        start = resolve
+      }).then(() => {
+        if (state !== 'open') {
+          throw new ClosedError()
+        }
+        return transportSend(messages.length === 1 ? messages[0] : messages)
+      })
+      queued = {
+        messages,
+        sent,
+        timer: setTimeout(flushQueue, autoBatch?.window ?? 0),
+        start,
       }
+    }
+    const { messages, sent } = queued
+    messages.push(message)
+    if (messages.length >= (autoBatch?.maxSize ?? Infinity)) {
+      flushQueue()
+    }
+    return sent
+  }
 
-      return {
+  const { send: transportSend, stop: transportStop } = transport(
+    receive,
+    shutdown,
+    reconnect,
+  )
+
+  const send = autoBatch ? queueSend : transportSend
+
+  // Calls awaiting a reply that identical calls can share, by method, params
+  // and timeout
+  const sharedCalls = new Map<string, Promise<unknown>>()
+
+  function dedupeCall(
+    method: RequestMessage['method'],
+    params: RequestMessage['params'],
+    opts: CallOptions,
+  ) {
+    // Params that JSON can't represent exactly, such as Maps or Dates sent
+    // with another codec, can't be compared by their JSON and aren't shared
+    const key =
+      autoBatch?.dedupe &&
+      !opts.signal &&
+      !opts.onProgress &&
+      (params === undefined || isPlainJSON(params))
+        ? JSON.stringify([method, params, opts.timeout])
+        : undefined
+    if (key === undefined) {
+      return callImpl(method, params, send, opts)
+    }
+    let promise = sharedCalls.get(key)
+    if (!promise) {
+      promise = callImpl(method, params, send, opts)
+      sharedCalls.set(key, promise)
+      const forget = () => {
+        sharedCalls.delete(key)
+      }
+      promise.then(forget, forget)
+    }
+    return promise as ReturnType<typeof callImpl>
+  }
+
+  function createBatch(opts: CallOptions): Batch<T> {
+    const batch: Message[] = []
+    // Calls and notifications whose interceptors haven't added them yet
+    const adding = new Set<Promise<void>>()
+
+    // Runs a call or notification, tracking it until it's added to the batch
+    // or finishes without being sent
+    function addToBatch<R>(
+      start: (send: (message: Message) => void) => Promise<R>,
+    ) {
+      let added!: () => void
+      const done = new Promise<void>((resolve) => {
+        added = resolve
+      })
+      adding.add(done)
+      void done.then(() => adding.delete(done))
+      const result = start((message) => {
+        batch.push(message)
+        added()
+      })
+      void result.then(added, added)
+      return result
+    }
+
+    function createBatchView(opts: CallOptions): Batch<T> {
+      const view: Batch<T> = {
         call(method, params) {
-          return callImpl(method, params, addToBatch)
+          return addToBatch((send) => callImpl(method, params, send, opts))
+        },
+
+        tryCall(method, params) {
+          return addToBatch((send) => tryCallImpl(method, params, send, opts))
         },
 
         notify(method, params) {
-          return notifyImpl(method, params, addToBatch)
+          return addToBatch((send) => notifyImpl(method, params, send, opts))
+        },
+
+        withOptions(moreOpts) {
+          return createBatchView({ ...opts, ...moreOpts })
+        },
+
+        get proxy() {
+          return proxy
         },
 
         async flush() {
+          // Wait for interceptors that are still preparing their messages
+          while (adding.size) {
+            await Promise.all(adding)
+          }
+          if (state !== 'open') {
+            throw new ClosedError()
+          }
           if (batch.length) {
             const snapshot = batch.slice()
             batch.length = 0
-            await send(snapshot)
+            try {
+              await transportSend(snapshot)
+            } catch (error) {
+              for (const message of snapshot) {
+                if ('id' in message && message.id != null) {
+                  pending.get(message.id)?.reject(error as Error)
+                }
+              }
+              throw error
+            }
           }
         },
       }
-    },
+      const proxy = createProxy<T>(view)
+      return view
+    }
+
+    return createBatchView(opts)
+  }
+
+  function createClientView(opts: CallOptions): Client<T> {
+    const view: Client<T> = {
+      call(method, params) {
+        return dedupeCall(method, params, opts)
+      },
 
-    stop,
+      tryCall(method, params) {
+        return tryCallImpl(method, params, send, opts)
+      },
+
+      stream(method, params) {
+        return streamImpl(method, params, opts) as AsyncIterable<never>
+      },
+
+      subscribe(method, ...args) {
+        return subscribeImpl(method, args, opts)
+      },
+
+      notify(method, params) {
+        return notifyImpl(method, params, send, opts)
+      },
+
+      createBatch() {
+        return createBatch(opts)
+      },
+
+      withOptions(moreOpts) {
+        return createClientView({ ...opts, ...moreOpts })
+      },
+
+      get proxy() {
+        return proxy
+      },
+
+      get state() {
+        return state
+      },
+
+      stop() {
+        shutdown()
+      },
+    }
+    const proxy = createProxy<T>(view)
+    return view
   }
+
+  return createClientView({})
 }
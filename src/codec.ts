@@ -0,0 +1,75 @@
+import type { Payload } from './jsonrpc'
+
+/**
+ * Converts payloads to and from the data sent over a transport.
+ */
+export type Codec = {
+  /** Media type of encoded payloads, used as the HTTP `Content-Type`. */
+  readonly contentType: string
+
+  /**
+   * Encodes a payload for sending.
+   *
+   * @param payload - The payload to encode
+   * @returns The encoded text or bytes
+   */
+  encode(payload: Payload): string | Uint8Array
+
+  /**
+   * Decodes received data into a payload, throwing if it's malformed.
+   *
+   * @param data - The received text or bytes
+   * @returns The decoded payload
+   */
+  decode(data: string | Uint8Array): Payload
+}
+
+/**
+ * Options for transports that serialize payloads.
+ */
+export type CodecOptions = {
+  /**
+   * How payloads are encoded. Defaults to JSON. Both ends of a connection
+   * must use the same codec.
+   */
+  codec?: Codec
+}
+
+const textDecoder = new TextDecoder()
+
+/**
+ * Encodes payloads as JSON text.
+ */
+export const jsonCodec: Codec = {
+  contentType: 'application/json',
+
+  encode(payload) {
+    return JSON.stringify(payload)
+  },
+
+  decode(data) {
+    return JSON.parse(
+      typeof data === 'string' ? data : textDecoder.decode(data),
+    ) as Payload
+  },
+}
+
+/**
+ * Converts message data received from a socket or channel into text or bytes
+ * that can be passed to a codec.
+ *
+ * @param data - The `data` of a message event
+ * @returns The data as text or bytes
+ */
+export function toCodecData(data: unknown): string | Uint8Array {
+  if (typeof data === 'string') {
+    return data
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data)
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  }
+  throw new TypeError('Unsupported message data')
+}
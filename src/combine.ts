@@ -0,0 +1,163 @@
+import { getMethodNames, type Handler } from './server'
+import type { CombinedService, Service } from './service'
+
+/**
+ * Handler objects, or factories that receive the context and return a handler,
+ * for each service of a combined service.
+ *
+ * @template Services - Object type mapping prefixes to services
+ * @template Context - Type of context passed to handler factories
+ */
+export type HandlersOf<Services extends Record<string, Service>, Context> = {
+  [Prefix in keyof Services]:
+    | Handler<Services[Prefix]>
+    | ((context: Context) => Handler<Services[Prefix]>)
+}
+
+function combine(handlers: Record<string, object>) {
+  const combined: Record<string, unknown> = {}
+  for (const [prefix, handler] of Object.entries(handlers)) {
+    for (const name of getMethodNames(handler)) {
+      // Called as a method, so handlers can use `this`
+      combined[prefix ? `${prefix}.${name}` : name] = (...args: unknown[]) =>
+        (handler as Record<string, (...args: unknown[]) => unknown>)[name](
+          ...args,
+        )
+    }
+  }
+  return combined
+}
+
+type HandlerOrFactory =
+  | Record<string, unknown>
+  | ((context: unknown) => Record<string, unknown>)
+
+// Combines handlers lazily, calling only the factories whose prefix matches
+// the method looked up
+function combineLazily(
+  handlers: Record<string, HandlerOrFactory>,
+  context: unknown,
+) {
+  const resolved = new Map<string, object>()
+  function resolve(prefix: string, entry: HandlerOrFactory) {
+    let handler = resolved.get(prefix)
+    if (!handler) {
+      handler = typeof entry === 'function' ? entry(context) : entry
+      resolved.set(prefix, handler)
+    }
+    return handler
+  }
+
+  // Later handlers win, so search from the last one
+  const entries = Object.entries(handlers).reverse()
+  function getMethod(method: string) {
+    for (const [prefix, entry] of entries) {
+      if (prefix && !method.startsWith(`${prefix}.`)) {
+        continue
+      }
+      const handler = resolve(prefix, entry)
+      const name = prefix ? method.slice(prefix.length + 1) : method
+      if (getMethodNames(handler).has(name)) {
+        return (...args: unknown[]) =>
+          (handler as Record<string, (...args: unknown[]) => unknown>)[name](
+            ...args,
+          )
+      }
+    }
+    return undefined
+  }
+
+  return new Proxy(
+    {},
+    {
+      get(_, property) {
+        return typeof property === 'string' ? getMethod(property) : undefined
+      },
+      // Listing the methods, such as for discovery, needs every handler
+      ownKeys() {
+        return Object.keys(
+          combine(
+            Object.fromEntries(
+              Object.entries(handlers).map(([prefix, entry]) => [
+                prefix,
+                resolve(prefix, entry),
+              ]),
+            ),
+          ),
+        )
+      },
+      getOwnPropertyDescriptor(_, property) {
+        const value =
+          typeof property === 'string' ? getMethod(property) : undefined
+        return (
+          value && {
+            value,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          }
+        )
+      },
+    },
+  )
+}
+
+/**
+ * Combines the handlers of several services into one, prefixing their method
+ * names with the key they're given and a dot. Handlers given under an empty
+ * key keep their method names, and a key may itself contain dots to mount a
+ * handler deeper. When method names collide, later handlers win.
+ *
+ * @template Services - Object type mapping prefixes to services
+ * @param handlers - Handler object for each prefix
+ * @returns A handler for the combined service
+ *
+ * @example
+ * ```typescript
+ * type AppServices = { users: UserService; billing: BillingService };
+ *
+ * const handler = combineHandlers<AppServices>({
+ *   users: usersHandler,
+ *   billing: billingHandler,
+ * });
+ * createWebSocketServer<CombinedService<AppServices>>(socket, handler);
+ * ```
+ */
+export function combineHandlers<Services extends Record<string, Service>>(
+  handlers: { [Prefix in keyof Services]: Handler<Services[Prefix]> },
+): Handler<CombinedService<Services>>
+
+/**
+ * Combines the handlers of several services into one, where some are factories
+ * that receive the context and return a handler. For each request, only the
+ * factory whose prefix matches the method is called, with the request's
+ * context.
+ *
+ * @template Services - Object type mapping prefixes to services
+ * @template Context - Type of context passed to handler factories
+ * @param handlers - Handler object or factory function for each prefix
+ * @returns A handler factory for the combined service
+ *
+ * @example
+ * ```typescript
+ * const handler = combineHandlers<AppServices, MessageEvent>({
+ *   users: (event) => createUsersHandler(event.origin),
+ *   billing: billingHandler,
+ * });
+ * ```
+ */
+export function combineHandlers<
+  Services extends Record<string, Service>,
+  Context,
+>(
+  handlers: HandlersOf<Services, Context>,
+): (context: Context) => Handler<CombinedService<Services>>
+
+export function combineHandlers(handlers: Record<string, HandlerOrFactory>) {
+  if (
+    Object.values(handlers).every((handler) => typeof handler !== 'function')
+  ) {
+    return combine(handlers)
+  }
+  return (context: unknown) => combineLazily(handlers, context)
+}
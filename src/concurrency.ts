@@ -0,0 +1,120 @@
+import { RPCError } from './error'
+import type { Middleware } from './server'
+
+/**
+ * Limits on how many requests run at once.
+ */
+export type ConcurrencyLimit = {
+  /** Maximum number of requests running at once. Defaults to no limit. */
+  maxConcurrent?: number
+
+  /**
+   * Maximum number of requests waiting to run. Requests beyond this are
+   * rejected with a -32004 "Server busy" error. Defaults to no limit.
+   */
+  maxQueue?: number
+}
+
+/**
+ * Options for `createConcurrencyLimiter`.
+ */
+export type ConcurrencyLimiterOptions = ConcurrencyLimit & {
+  /**
+   * Limits for individual methods, applied in addition to the overall limit.
+   */
+  methods?: Record<string, ConcurrencyLimit>
+}
+
+function createSemaphore({
+  maxConcurrent = Infinity,
+  maxQueue = Infinity,
+}: ConcurrencyLimit) {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  return {
+    async acquire(signal: AbortSignal) {
+      signal.throwIfAborted()
+      if (active < maxConcurrent) {
+        active += 1
+        return
+      }
+      if (waiting.length >= maxQueue) {
+        throw new RPCError('Server busy', { code: -32004 })
+      }
+      await new Promise<void>((resolve, reject) => {
+        function wake() {
+          signal.removeEventListener('abort', onAbort)
+          resolve()
+        }
+        function onAbort() {
+          waiting.splice(waiting.indexOf(wake), 1)
+          reject(signal.reason)
+        }
+        waiting.push(wake)
+        signal.addEventListener('abort', onAbort)
+      })
+    },
+
+    release() {
+      // Hand the slot straight to the next waiting request, if any
+      const next = waiting.shift()
+      if (next) {
+        next()
+      } else {
+        active -= 1
+      }
+    },
+  }
+}
+
+/**
+ * Creates server middleware that limits how many requests run at once, both
+ * overall and per method. Requests over the limit wait in a queue, and are
+ * rejected with a -32004 "Server busy" error once the queue is full. Share the
+ * middleware between servers to limit them together.
+ *
+ * @param opts - The limits to apply
+ * @returns Middleware to pass in the server's `middleware` option
+ *
+ * @example
+ * ```typescript
+ * const server = createWebSocketServer<MyService>(socket, handler, {
+ *   middleware: [
+ *     createConcurrencyLimiter({
+ *       maxConcurrent: 100,
+ *       maxQueue: 1000,
+ *       methods: { exportReport: { maxConcurrent: 2, maxQueue: 10 } },
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function createConcurrencyLimiter(
+  opts: ConcurrencyLimiterOptions,
+): Middleware {
+  const overall = createSemaphore(opts)
+  const methods = new Map(
+    Object.entries(opts.methods ?? {}).map(([method, limit]) => [
+      method,
+      createSemaphore(limit),
+    ]),
+  )
+
+  return async (ctx, next) => {
+    // Wait for the method's limit first, so waiting requests don't hold
+    // overall slots
+    const method = methods.get(ctx.method)
+    await method?.acquire(ctx.signal)
+    try {
+      await overall.acquire(ctx.signal)
+      try {
+        return await next()
+      } finally {
+        overall.release()
+      }
+    } finally {
+      method?.release()
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import type { Service } from './service'
+
+/**
+ * Name of the method that returns an OpenRPC document describing a server,
+ * when a service description is given.
+ */
+export const discoverMethod = 'rpc.discover'
+
+/**
+ * A JSON Schema.
+ */
+export type JSONSchema = boolean | { [keyword: string]: unknown }
+
+/**
+ * Describes a single param or result, as an OpenRPC content descriptor.
+ */
+export type ContentDescriptor = {
+  name: string
+  schema: JSONSchema
+  summary?: string
+  description?: string
+  required?: boolean
+  deprecated?: boolean
+}
+
+/**
+ * Describes a single method.
+ */
+export type MethodDescription = {
+  /** Short summary of what the method does. */
+  summary?: string
+
+  /** Longer description of the method. */
+  description?: string
+
+  /**
+   * JSON Schema of the params object, with each of its properties listed as a
+   * named param. Alternatively, a content descriptor for each positional
+   * param.
+   */
+  params?: JSONSchema | ContentDescriptor[]
+
+  /** JSON Schema of the result. */
+  result?: JSONSchema
+
+  /** Whether the method should no longer be used. */
+  deprecated?: boolean
+}
+
+/**
+ * Describes a service at runtime, for the OpenRPC document returned by
+ * `rpc.discover`.
+ *
+ * @template T - The service interface being described
+ */
+export type ServiceDescription<T extends Service = Service> = {
+  /** Metadata about the service. */
+  info: {
+    title: string
+    version: string
+    description?: string
+  }
+
+  /** Descriptions of each method. Methods without one are still listed. */
+  methods?: { [K in Extract<keyof T, string>]?: MethodDescription }
+}
+
+/**
+ * An OpenRPC document. See https://spec.open-rpc.org.
+ */
+export type OpenRPCDocument = {
+  openrpc: string
+  info: ServiceDescription['info']
+  methods: {
+    name: string
+    summary?: string
+    description?: string
+    params: ContentDescriptor[]
+    result?: ContentDescriptor
+    paramStructure?: 'by-name' | 'by-position'
+    deprecated?: boolean
+  }[]
+}
+
+function describeParams(
+  params: MethodDescription['params'],
+): Pick<OpenRPCDocument['methods'][number], 'params' | 'paramStructure'> {
+  if (params === undefined) {
+    return { params: [] }
+  }
+  if (Array.isArray(params)) {
+    return { params, paramStructure: 'by-position' }
+  }
+  const { properties = {}, required = [] } =
+    typeof params === 'object'
+      ? (params as {
+          properties?: Record<string, JSONSchema>
+          required?: string[]
+        })
+      : {}
+  return {
+    params: Object.entries(properties).map(([name, schema]) => ({
+      name,
+      schema,
+      required: required.includes(name),
+    })),
+    paramStructure: 'by-name',
+  }
+}
+
+/**
+ * Creates an OpenRPC document describing a service.
+ *
+ * @param description - The description of the service
+ * @param methodNames - Names of the methods to list, in addition to the
+ *                      described methods
+ * @returns The OpenRPC document
+ *
+ * @example
+ * ```typescript
+ * const document = createOpenRPCDocument(description, Object.keys(handler));
+ * await writeFile('openrpc.json', JSON.stringify(document));
+ * ```
+ */
+export function createOpenRPCDocument(
+  description: ServiceDescription,
+  methodNames: Iterable<string> = [],
+): OpenRPCDocument {
+  const methods = description.methods ?? {}
+  const names = new Set([...methodNames, ...Object.keys(methods)])
+  return {
+    openrpc: '1.3.2',
+    info: description.info,
+    methods: [...names]
+      .filter((name) => !name.startsWith('rpc.'))
+      .map((name) => {
+        const method: MethodDescription = methods[name] ?? {}
+        return {
+          name,
+          summary: method.summary,
+          description: method.description,
+          ...describeParams(method.params),
+          result: { name: 'result', schema: method.result ?? {} },
+          deprecated: method.deprecated,
+        }
+      }),
+  }
+}
@@ -21,3 +21,38 @@ export class RPCError<T = unknown> extends Error {
     this.data = opts.data
   }
 }
+
+/**
+ * Error raised on the client when a call does not receive a reply in time.
+ */
+export class TimeoutError extends RPCError<{ timeout: number }> {
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout} ms`, {
+      code: -32001,
+      data: { timeout },
+    })
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Error raised on the client for calls that cannot complete because the client
+ * was stopped or its transport closed.
+ */
+export class ClosedError extends RPCError {
+  constructor(cause?: unknown) {
+    super('Client closed', { code: -32002 })
+    this.name = 'ClosedError'
+    this.cause = cause
+  }
+}
+
+/**
+ * Error raised on the client when a call is aborted by its AbortSignal.
+ */
+export class AbortError extends RPCError {
+  constructor() {
+    super('Request aborted', { code: -32800 })
+    this.name = 'AbortError'
+  }
+}
@@ -1,6 +1,38 @@
-export type { Batch, Client, Transport } from './client'
+export type {
+  AutoBatchOptions,
+  Batch,
+  CallOptions,
+  CallResult,
+  Client,
+  ClientOptions,
+  ClientState,
+  Interceptor,
+  InterceptorContext,
+  Result,
+  StreamValue,
+  Transport,
+} from './client'
 export { createClient } from './client'
-export { RPCError } from './error'
+export type { Codec, CodecOptions } from './codec'
+export { jsonCodec } from './codec'
+export type { HandlersOf } from './combine'
+export { combineHandlers } from './combine'
+export type { ConcurrencyLimit, ConcurrencyLimiterOptions } from './concurrency'
+export { createConcurrencyLimiter } from './concurrency'
+export type {
+  ContentDescriptor,
+  JSONSchema,
+  MethodDescription,
+  OpenRPCDocument,
+  ServiceDescription,
+} from './discover'
+export { createOpenRPCDocument } from './discover'
+export {
+  AbortError,
+  ClosedError,
+  RPCError,
+  TimeoutError,
+} from './error'
 export type {
   ErrorMessage,
   Id,
@@ -9,9 +41,47 @@ export type {
   RequestMessage,
   ResultMessage,
 } from './jsonrpc'
-export type { Handler, Server } from './server'
-export { handle } from './server'
-export type { Service } from './service'
+export { msgpackCodec } from './msgpack'
+export type { PeerOptions } from './peer'
+export { createPeer } from './peer'
+export type { ProxyClient, ProxyMethod } from './proxy'
+export type {
+  RateLimit,
+  RateLimiterOptions,
+  RateLimitResult,
+  RateLimitStore,
+} from './rateLimit'
+export { createMemoryRateLimitStore, createRateLimiter } from './rateLimit'
+export type { RetryOptions, RetryPolicy } from './retry'
+export { createRetryInterceptor } from './retry'
+export type { RichCodecOptions, RichType } from './rich'
+export { createRichCodec } from './rich'
+export type {
+  InferService,
+  MethodSchema,
+  ServiceSchema,
+  StandardSchemaV1,
+} from './schema'
+export type {
+  HandleOptions,
+  Handler,
+  HandlerExtras,
+  Middleware,
+  MiddlewareContext,
+  Server,
+  ServerOptions,
+  Session,
+} from './server'
+export { createSession, handle } from './server'
+export type {
+  CombinedService,
+  MethodError,
+  Service,
+  Throws,
+} from './service'
+export type { Topic, TopicEvent } from './topic'
+export { createTopic } from './topic'
+export { transfer } from './transfer'
 
 export {
   createBroadcastChannelClient,
@@ -24,35 +94,52 @@ export {
   createChromeExtensionServer,
 } from './transports/chromeExtension'
 
-export { createFetchClient } from './transports/fetch'
+export type {
+  HttpServerOptions,
+  PostMessageOptions,
+} from './transports/common'
 
+export { createFetchClient, createFetchHandler } from './transports/fetch'
+export type { Framing } from './transports/framing'
+export {
+  contentLengthFraming,
+  lengthPrefixedFraming,
+  ndjsonFraming,
+} from './transports/framing'
 export {
   createMessagePortClient,
+  createMessagePortPeer,
   createMessagePortServer,
 } from './transports/messagePort'
-
+export { createNodeHttpListener } from './transports/nodeHttp'
 export {
   createPostMessageClient,
   createPostMessageServer,
 } from './transports/postMessage'
-
+export type {
+  ConnectionState,
+  ReconnectingWebSocketOptions,
+} from './transports/reconnectingWebSocket'
+export { createReconnectingWebSocketClient } from './transports/reconnectingWebSocket'
 export {
   createRTCDataChannelClient,
+  createRTCDataChannelPeer,
   createRTCDataChannelServer,
 } from './transports/rtcDataChannel'
-
 export {
   createServiceWorkerClient,
   createServiceWorkerServer,
 } from './transports/serviceWorker'
-
+export type { NodeStreamOptions } from './transports/stream'
 export {
   createNodeStreamClient,
+  createNodeStreamPeer,
   createNodeStreamServer,
 } from './transports/stream'
 
 export {
   createWebSocketClient,
+  createWebSocketPeer,
   createWebSocketServer,
 } from './transports/webSocket'
 
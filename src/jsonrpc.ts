@@ -49,3 +49,60 @@ export type Message = RequestMessage | ResultMessage | ErrorMessage
  * RPC payload (single message or batch).
  */
 export type Payload = Message | Message[]
+
+/**
+ * Notification sent from server to client with a value streamed by a request.
+ * Params are `{ id, value }`.
+ */
+export const streamMethod = '$/stream'
+
+/**
+ * Notification sent from client to server allowing more values to be streamed
+ * by a request. Params are `{ id, count }`.
+ */
+export const streamPullMethod = '$/stream/pull'
+
+/**
+ * Notification sent from client to server to cancel a request. Params are
+ * `{ id }`.
+ */
+export const cancelRequestMethod = '$/cancelRequest'
+
+/**
+ * Notification sent from server to client with the progress of a request.
+ * Params are `{ id, value }`.
+ */
+export const progressMethod = '$/progress'
+
+/**
+ * Notification sent from server to client with an event for a subscription.
+ * Params are `{ id, event }`, where `id` is that of the subscribing request.
+ */
+export const eventMethod = '$/event'
+
+/**
+ * Notification sent from client to server to end a subscription. Params are
+ * `{ id }`.
+ */
+export const unsubscribeMethod = '$/unsubscribe'
+
+/**
+ * Whether a message should be handled by a client rather than a server: replies,
+ * and notifications sent by servers about requests and subscriptions.
+ *
+ * @param message - The message to check
+ * @returns True for messages addressed to a client
+ */
+export function isClientMessage(message: Message): boolean {
+  if (typeof message !== 'object' || message === null) {
+    return false
+  }
+  if ('method' in message) {
+    return (
+      message.method === streamMethod ||
+      message.method === progressMethod ||
+      message.method === eventMethod
+    )
+  }
+  return 'result' in message || 'error' in message
+}
@@ -0,0 +1,356 @@
+import type { Codec } from './codec'
+import type { Payload } from './jsonrpc'
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+// Extension type of timestamps, decoded as Dates
+const timestampType = -1
+
+function encodeValue(value: unknown): Uint8Array {
+  let bytes = new Uint8Array(256)
+  let view = new DataView(bytes.buffer)
+  let length = 0
+
+  function reserve(size: number) {
+    if (length + size > bytes.length) {
+      const grown = new Uint8Array(Math.max(bytes.length * 2, length + size))
+      grown.set(bytes)
+      bytes = grown
+      view = new DataView(bytes.buffer)
+    }
+    const offset = length
+    length += size
+    return offset
+  }
+
+  // Reserves space before writing to the view, since reserving may replace it
+  function writeView(size: number, set: (offset: number) => void) {
+    set(reserve(size))
+  }
+
+  function writeU8(n: number) {
+    writeView(1, (offset) => view.setUint8(offset, n))
+  }
+
+  function writeHeader(type: number, size: 1 | 2 | 4, n: number) {
+    writeU8(type)
+    const offset = reserve(size)
+    if (size === 1) {
+      view.setUint8(offset, n)
+    } else if (size === 2) {
+      view.setUint16(offset, n)
+    } else {
+      view.setUint32(offset, n)
+    }
+  }
+
+  function writeBytes(data: Uint8Array) {
+    // Reserve first, since reserving may replace the buffer
+    const offset = reserve(data.length)
+    bytes.set(data, offset)
+  }
+
+  // Writes a length with the smallest of the given 8, 16 or 32-bit types
+  function writeLength(
+    n: number,
+    fixType: number | undefined,
+    fixMax: number,
+    types: [number | undefined, number, number],
+  ) {
+    if (fixType !== undefined && n <= fixMax) {
+      writeU8(fixType | n)
+    } else if (types[0] !== undefined && n < 0x100) {
+      writeHeader(types[0], 1, n)
+    } else if (n < 0x10000) {
+      writeHeader(types[1], 2, n)
+    } else {
+      writeHeader(types[2], 4, n)
+    }
+  }
+
+  function writeInteger(n: number | bigint) {
+    if (n >= 0) {
+      if (n < 0x80) {
+        writeU8(Number(n))
+      } else if (n < 0x100) {
+        writeHeader(0xcc, 1, Number(n))
+      } else if (n < 0x10000) {
+        writeHeader(0xcd, 2, Number(n))
+      } else if (n < 0x100000000) {
+        writeHeader(0xce, 4, Number(n))
+      } else {
+        writeU8(0xcf)
+        writeView(8, (offset) => view.setBigUint64(offset, BigInt(n)))
+      }
+    } else if (n >= -0x20) {
+      writeU8(Number(n) & 0xff)
+    } else if (n >= -0x80) {
+      writeU8(0xd0)
+      writeView(1, (offset) => view.setInt8(offset, Number(n)))
+    } else if (n >= -0x8000) {
+      writeU8(0xd1)
+      writeView(2, (offset) => view.setInt16(offset, Number(n)))
+    } else if (n >= -0x80000000) {
+      writeU8(0xd2)
+      writeView(4, (offset) => view.setInt32(offset, Number(n)))
+    } else {
+      writeU8(0xd3)
+      writeView(8, (offset) => view.setBigInt64(offset, BigInt(n)))
+    }
+  }
+
+  function write(value: unknown) {
+    if (
+      value == null ||
+      typeof value === 'function' ||
+      typeof value === 'symbol'
+    ) {
+      writeU8(0xc0)
+    } else if (typeof value === 'boolean') {
+      writeU8(value ? 0xc3 : 0xc2)
+    } else if (typeof value === 'number') {
+      if (Number.isSafeInteger(value)) {
+        writeInteger(value)
+      } else {
+        writeU8(0xcb)
+        writeView(8, (offset) => view.setFloat64(offset, value))
+      }
+    } else if (typeof value === 'bigint') {
+      if (value < -(2n ** 63n) || value >= 2n ** 64n) {
+        throw new RangeError('BigInt too large for MessagePack')
+      }
+      writeInteger(value)
+    } else if (typeof value === 'string') {
+      const data = textEncoder.encode(value)
+      writeLength(data.length, 0xa0, 31, [0xd9, 0xda, 0xdb])
+      writeBytes(data)
+    } else if (value instanceof Uint8Array) {
+      writeLength(value.length, undefined, 0, [0xc4, 0xc5, 0xc6])
+      writeBytes(value)
+    } else if (value instanceof Date) {
+      // Timestamp 96: nanoseconds and 64-bit seconds
+      const millis = value.getTime()
+      const seconds = Math.floor(millis / 1000)
+      writeHeader(0xc7, 1, 12)
+      writeView(1, (offset) => view.setInt8(offset, timestampType))
+      writeView(4, (offset) =>
+        view.setUint32(offset, (millis - seconds * 1000) * 1e6),
+      )
+      writeView(8, (offset) => view.setBigInt64(offset, BigInt(seconds)))
+    } else if (Array.isArray(value)) {
+      writeLength(value.length, 0x90, 15, [undefined, 0xdc, 0xdd])
+      for (const item of value) {
+        write(item)
+      }
+    } else {
+      // Like JSON, skip properties that can't be represented
+      const entries = Object.entries(value).filter(
+        ([, item]) => item !== undefined && typeof item !== 'function',
+      )
+      writeLength(entries.length, 0x80, 15, [undefined, 0xde, 0xdf])
+      for (const [key, item] of entries) {
+        write(key)
+        write(item)
+      }
+    }
+  }
+
+  write(value)
+  return bytes.slice(0, length)
+}
+
+function decodeValue(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 0
+
+  function advance(size: number) {
+    if (offset + size > bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data')
+    }
+    const start = offset
+    offset += size
+    return start
+  }
+
+  function readUint(size: 1 | 2 | 4) {
+    const start = advance(size)
+    return size === 1
+      ? view.getUint8(start)
+      : size === 2
+        ? view.getUint16(start)
+        : view.getUint32(start)
+  }
+
+  function readBig(signed: boolean) {
+    const start = advance(8)
+    const n = signed ? view.getBigInt64(start) : view.getBigUint64(start)
+    // Only use a BigInt when the value can't be represented exactly
+    return n >= Number.MIN_SAFE_INTEGER && n <= Number.MAX_SAFE_INTEGER
+      ? Number(n)
+      : n
+  }
+
+  function readString(length: number) {
+    return textDecoder.decode(bytes.subarray(advance(length), offset))
+  }
+
+  function readArray(length: number) {
+    const array: unknown[] = []
+    for (let i = 0; i < length; i++) {
+      array.push(read())
+    }
+    return array
+  }
+
+  function readMap(length: number) {
+    const object: Record<string, unknown> = {}
+    for (let i = 0; i < length; i++) {
+      const key = String(read())
+      // Define rather than assign, so keys like __proto__ are plain properties
+      Object.defineProperty(object, key, {
+        value: read(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+    }
+    return object
+  }
+
+  function readExtension(length: number) {
+    const type = view.getInt8(advance(1))
+    const start = advance(length)
+    if (type !== timestampType) {
+      throw new TypeError(`Unsupported MessagePack extension type ${type}`)
+    }
+    if (length === 4) {
+      return new Date(view.getUint32(start) * 1000)
+    }
+    if (length === 8) {
+      const high = view.getUint32(start)
+      const low = view.getUint32(start + 4)
+      // The upper 30 bits are nanoseconds, and the lower 34 bits are seconds
+      const nanoseconds = high >>> 2
+      const seconds = (high & 0x3) * 0x100000000 + low
+      return new Date(seconds * 1000 + nanoseconds / 1e6)
+    }
+    if (length === 12) {
+      const nanoseconds = view.getUint32(start)
+      const seconds = Number(view.getBigInt64(start + 4))
+      return new Date(seconds * 1000 + nanoseconds / 1e6)
+    }
+    throw new TypeError('Invalid MessagePack timestamp')
+  }
+
+  function read(): unknown {
+    const type = view.getUint8(advance(1))
+    if (type < 0x80) {
+      return type
+    }
+    if (type < 0x90) {
+      return readMap(type & 0x0f)
+    }
+    if (type < 0xa0) {
+      return readArray(type & 0x0f)
+    }
+    if (type < 0xc0) {
+      return readString(type & 0x1f)
+    }
+    if (type >= 0xe0) {
+      return type - 0x100
+    }
+    switch (type) {
+      case 0xc0:
+        return null
+      case 0xc2:
+        return false
+      case 0xc3:
+        return true
+      case 0xc4:
+      case 0xc5:
+      case 0xc6: {
+        const length = readUint(type === 0xc4 ? 1 : type === 0xc5 ? 2 : 4)
+        return bytes.slice(advance(length), offset)
+      }
+      case 0xc7:
+        return readExtension(readUint(1))
+      case 0xc8:
+        return readExtension(readUint(2))
+      case 0xc9:
+        return readExtension(readUint(4))
+      case 0xca:
+        return view.getFloat32(advance(4))
+      case 0xcb:
+        return view.getFloat64(advance(8))
+      case 0xcc:
+        return readUint(1)
+      case 0xcd:
+        return readUint(2)
+      case 0xce:
+        return readUint(4)
+      case 0xcf:
+        return readBig(false)
+      case 0xd0:
+        return view.getInt8(advance(1))
+      case 0xd1:
+        return view.getInt16(advance(2))
+      case 0xd2:
+        return view.getInt32(advance(4))
+      case 0xd3:
+        return readBig(true)
+      case 0xd4:
+        return readExtension(1)
+      case 0xd5:
+        return readExtension(2)
+      case 0xd6:
+        return readExtension(4)
+      case 0xd7:
+        return readExtension(8)
+      case 0xd8:
+        return readExtension(16)
+      case 0xd9:
+        return readString(readUint(1))
+      case 0xda:
+        return readString(readUint(2))
+      case 0xdb:
+        return readString(readUint(4))
+      case 0xdc:
+        return readArray(readUint(2))
+      case 0xdd:
+        return readArray(readUint(4))
+      case 0xde:
+        return readMap(readUint(2))
+      case 0xdf:
+        return readMap(readUint(4))
+      default:
+        throw new TypeError(`Invalid MessagePack type 0x${type.toString(16)}`)
+    }
+  }
+
+  const value = read()
+  if (offset !== bytes.length) {
+    throw new TypeError('Unexpected data after MessagePack value')
+  }
+  return value
+}
+
+/**
+ * Encodes payloads as MessagePack, a compact binary format. Besides JSON
+ * values, `Uint8Array`s, `Date`s and `BigInt`s are sent natively. Integers too
+ * large to be represented exactly as numbers are decoded as `BigInt`s.
+ */
+export const msgpackCodec: Codec = {
+  contentType: 'application/vnd.msgpack',
+
+  encode(payload) {
+    return encodeValue(payload)
+  },
+
+  decode(data) {
+    if (typeof data === 'string') {
+      throw new TypeError('Expected MessagePack bytes, received text')
+    }
+    return decodeValue(data) as Payload
+  },
+}
@@ -0,0 +1,105 @@
+import type { Client, ClientOptions, Transport } from './client'
+import { createClient } from './client'
+import type { Payload } from './jsonrpc'
+import { isClientMessage } from './jsonrpc'
+import type { ServiceSchema } from './schema'
+import type { Handler, ServerOptions } from './server'
+import { createSession, handle } from './server'
+import type { Service } from './service'
+
+/**
+ * Options for creating a peer, combining client and server options.
+ *
+ * @template Context - Type of context the transport passes with each payload
+ */
+export type PeerOptions<Context = unknown> = Omit<ClientOptions, 'schema'> &
+  Omit<ServerOptions<Context>, 'schema'> & {
+    /**
+     * Validators for the local service's params and results, and for the
+     * remote service's results.
+     */
+    schema?: { local?: ServiceSchema; remote?: ServiceSchema }
+  }
+
+/**
+ * Creates a peer that both calls a remote service and serves a local one over
+ * the same transport. Incoming requests are routed to the handler and incoming
+ * replies are routed to the peer's pending calls.
+ *
+ * @template Local - The service interface implemented by this peer
+ * @template Remote - The service interface implemented by the other peer
+ * @template Context - Type of context the transport passes with each payload
+ * @param transport - Transport layer for communication
+ * @param handler - Handler object or factory function that receives context
+ * @param peerOpts - Optional client and server configuration
+ * @returns RPC client instance for the remote service, which also stops serving
+ *          the local service when stopped
+ *
+ * @example
+ * ```typescript
+ * const peer = createPeer<MyService, TheirService>(transport, {
+ *   add({ x, y }) { return x + y }
+ * });
+ * await peer.call('multiply', { x: 2, y: 3 });
+ * ```
+ */
+export function createPeer<
+  Local extends Service = never,
+  Remote extends Service = never,
+  Context = never,
+>(
+  transport: Transport,
+  handler: Handler<Local> | ((context: Context) => Handler<Local>),
+  peerOpts?: PeerOptions<Context>,
+): Client<Remote> {
+  const client = createClient<Remote>(
+    (receive, close, reconnect) => {
+      function onPayload(payload: Payload, context?: unknown) {
+        let requests: Payload | undefined
+        if (Array.isArray(payload)) {
+          const clientBatch = payload.filter(isClientMessage)
+          if (clientBatch.length > 0) {
+            receive(clientBatch)
+          }
+          const requestBatch = payload.filter(
+            (message) => !isClientMessage(message),
+          )
+          if (requestBatch.length > 0 || clientBatch.length === 0) {
+            requests = requestBatch
+          }
+        } else if (isClientMessage(payload)) {
+          receive(payload)
+        } else {
+          requests = payload
+        }
+
+        if (requests) {
+          void handle(requests, handler, context as Context, {
+            ...peerOpts,
+            schema: peerOpts?.schema?.local,
+            session,
+          }).then((reply) => {
+            if (reply && client.state === 'open') {
+              return send(reply)
+            }
+          })
+        }
+      }
+
+      const { send, stop } = transport(onPayload, close, reconnect)
+      const session = createSession((message) => {
+        void send(message)
+      })
+      return {
+        send,
+        stop() {
+          stop()
+          session.stop()
+        },
+      }
+    },
+    { ...peerOpts, schema: peerOpts?.schema?.remote },
+  )
+
+  return client
+}
@@ -0,0 +1,103 @@
+import type { CallResult } from './client'
+import type { RequestMessage } from './jsonrpc'
+
+type StringKeyOf<T> = Extract<keyof T, string>
+
+// First segments of the dotted method names
+type RootKeyOf<T> = {
+  [K in StringKeyOf<T>]: K extends `${infer Head}.${string}` ? Head : K
+}[StringKeyOf<T>]
+
+// Methods under a namespace, with the namespace removed from their names
+type Namespace<T, Head extends string> = {
+  [K in StringKeyOf<T> as K extends `${Head}.${infer Rest}`
+    ? Rest
+    : never]: T[K]
+}
+
+/**
+ * A method called through a proxy client.
+ *
+ * @template F - The method's type in the service
+ */
+export type ProxyMethod<F> = F extends (...args: never[]) => unknown
+  ? {
+      /**
+       * Makes an RPC call and waits for the result.
+       *
+       * @param params - Parameters to pass to the method
+       * @returns Promise that resolves to the method's return value
+       */
+      (...params: Parameters<F>): Promise<CallResult<ReturnType<F>>>
+
+      /**
+       * Sends a notification (fire-and-forget call with no response).
+       *
+       * @param params - Parameters to pass to the method
+       * @returns Promise that resolves when the outgoing notification has been sent.
+       */
+      notify(...params: Parameters<F>): Promise<void>
+    }
+  : unknown
+
+/**
+ * Object with a function for each method of a service. Methods with dotted
+ * names like `users.get` are nested, as `proxy.users.get()`.
+ *
+ * @template T - The service interface defining available methods
+ */
+export type ProxyClient<T> = {
+  [K in RootKeyOf<T>]: (K extends keyof T ? ProxyMethod<T[K]> : unknown) &
+    ([keyof Namespace<T, K>] extends [never]
+      ? unknown
+      : ProxyClient<Namespace<T, K>>)
+}
+
+/**
+ * Anything that can make calls and notifications, such as a client or batch.
+ */
+type Caller = {
+  call(name: string, params?: RequestMessage['params']): Promise<unknown>
+  notify(name: string, params?: RequestMessage['params']): Promise<void>
+}
+
+function createMethodProxy(caller: Caller, path: string): unknown {
+  return new Proxy(
+    (params?: RequestMessage['params']) => caller.call(path, params),
+    {
+      get(_, property) {
+        return getProperty(caller, path, property)
+      },
+    },
+  )
+}
+
+function getProperty(caller: Caller, path: string, property: string | symbol) {
+  // Not thenable, so proxies can be returned from async functions
+  if (typeof property === 'symbol' || property === 'then') {
+    return undefined
+  }
+  if (property === 'notify' && path) {
+    return (params?: RequestMessage['params']) => caller.notify(path, params)
+  }
+  return createMethodProxy(caller, path ? `${path}.${property}` : property)
+}
+
+/**
+ * Creates a proxy client that makes calls and notifications through a client
+ * or batch.
+ *
+ * @template T - The service interface defining available methods
+ * @param caller - The client or batch to call methods with
+ * @returns A proxy client for the service
+ */
+export function createProxy<T>(caller: Caller): ProxyClient<T> {
+  return new Proxy(
+    {},
+    {
+      get(_, property) {
+        return getProperty(caller, '', property)
+      },
+    },
+  ) as ProxyClient<T>
+}
@@ -0,0 +1,159 @@
+import { RPCError } from './error'
+import type { Middleware, MiddlewareContext } from './server'
+
+/**
+ * How many calls are allowed per interval.
+ */
+export type RateLimit = {
+  /** Maximum number of calls per interval, which may all be made at once. */
+  limit: number
+
+  /** Milliseconds over which `limit` calls are allowed. */
+  interval: number
+}
+
+/**
+ * Whether a call may be made, as decided by a rate limit store.
+ */
+export type RateLimitResult = {
+  /** Whether the call is within the limit. */
+  allowed: boolean
+
+  /** Milliseconds to wait before retrying, when the call isn't allowed. */
+  retryAfter: number
+}
+
+/**
+ * Storage for rate limit state, such as memory or a shared database.
+ */
+export type RateLimitStore = {
+  /**
+   * Takes a call from the token bucket for a key, if one is left. Must check
+   * and update the bucket as a single atomic operation, so concurrent calls
+   * can't all take the same token.
+   *
+   * @param key - The bucket's key
+   * @param limit - The limit the bucket refills to, and how quickly
+   * @returns Whether the call is allowed, and when to retry if not
+   */
+  consume(
+    key: string,
+    limit: RateLimit,
+  ): RateLimitResult | Promise<RateLimitResult>
+}
+
+/**
+ * Options for `createRateLimiter`.
+ *
+ * @template Context - Type of context passed to handler factory
+ */
+export type RateLimiterOptions<Context = unknown> = RateLimit & {
+  /**
+   * Derives the key that calls are counted under, such as the client's IP or
+   * origin. Defaults to counting all calls together.
+   */
+  key?: (ctx: MiddlewareContext<Context>) => string
+
+  /** Limits for individual methods, counted separately from other calls. */
+  methods?: Record<string, RateLimit>
+
+  /** Where to keep rate limit state. Defaults to a new memory store. */
+  store?: RateLimitStore
+}
+
+/**
+ * Creates a rate limit store that keeps token buckets in memory, forgetting
+ * them once they're full again.
+ *
+ * @returns A rate limit store
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  // Calls left in each bucket, which refills continuously up to the limit
+  const buckets = new Map<
+    string,
+    { tokens: number; updated: number; expires: number }
+  >()
+  let nextSweep = 0
+
+  return {
+    consume(key, { limit, interval }) {
+      const now = Date.now()
+      const rate = limit / interval
+
+      // Refill the bucket for the time since it was last used
+      const bucket = buckets.get(key)
+      const tokens =
+        bucket && bucket.expires > now
+          ? Math.min(limit, bucket.tokens + (now - bucket.updated) * rate)
+          : limit
+      if (tokens < 1) {
+        return { allowed: false, retryAfter: Math.ceil((1 - tokens) / rate) }
+      }
+
+      const expires = now + Math.ceil((limit - tokens + 1) / rate)
+      buckets.set(key, { tokens: tokens - 1, updated: now, expires })
+      // Forget buckets of clients that stopped calling, at most once per
+      // interval
+      if (now >= nextSweep) {
+        nextSweep = now + interval
+        for (const [key, bucket] of buckets) {
+          if (bucket.expires <= now) {
+            buckets.delete(key)
+          }
+        }
+      }
+      return { allowed: true, retryAfter: 0 }
+    },
+  }
+}
+
+/**
+ * Creates server middleware that limits how often methods may be called, using
+ * a token bucket per key. Calls over the limit are rejected with a -32005 "Too
+ * many requests" error, with the milliseconds to wait before retrying in its
+ * data's `retryAfter`.
+ *
+ * @template Context - Type of context passed to handler factory
+ * @param opts - The limits to apply, and how to key them
+ * @returns Middleware to pass in the server's `middleware` option
+ *
+ * @example
+ * ```typescript
+ * const listener = createNodeHttpListener<MyService>(handler, {
+ *   middleware: [
+ *     createRateLimiter({
+ *       limit: 100,
+ *       interval: 60_000,
+ *       key: (ctx) => ctx.context.socket.remoteAddress ?? '',
+ *       methods: { sendEmail: { limit: 5, interval: 60_000 } },
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function createRateLimiter<Context = unknown>(
+  opts: RateLimiterOptions<Context>,
+): Middleware<Context> {
+  const { store = createMemoryRateLimitStore() } = opts
+
+  return async (ctx, next) => {
+    const key = opts.key?.(ctx) ?? ''
+    const methodLimit = opts.methods?.[ctx.method]
+    const { limit, interval } = methodLimit ?? opts
+    const bucketKey = methodLimit
+      ? JSON.stringify([key, ctx.method])
+      : JSON.stringify([key])
+
+    const { allowed, retryAfter } = await store.consume(bucketKey, {
+      limit,
+      interval,
+    })
+    if (!allowed) {
+      throw new RPCError('Too many requests', {
+        code: -32005,
+        data: { retryAfter },
+      })
+    }
+    return next()
+  }
+}
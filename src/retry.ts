@@ -0,0 +1,139 @@
+import type { Interceptor } from './client'
+import { AbortError, RPCError } from './error'
+
+/**
+ * When and how often to retry failed calls.
+ */
+export type RetryPolicy = {
+  /**
+   * Whether calls may be retried. Only enable this for idempotent methods, or
+   * for methods whose server detects duplicates with an idempotency key.
+   * Defaults to false.
+   */
+  safe?: boolean
+
+  /** Maximum number of attempts, including the first. Defaults to 3. */
+  maxAttempts?: number
+
+  /** Milliseconds to wait before the first retry. Defaults to 100. */
+  minDelay?: number
+
+  /** Maximum milliseconds to wait between retries. Defaults to 5000. */
+  maxDelay?: number
+
+  /**
+   * Error codes to retry, or a function deciding per error. Defaults to
+   * retrying transport failures, timeouts and lost connections.
+   */
+  retryOn?: number[] | ((error: unknown) => boolean)
+
+  /**
+   * Name of a param to send an idempotency key in, which is the same for
+   * every attempt of a call so the server can detect duplicates. Only added
+   * to calls with named params or no params.
+   */
+  idempotencyKey?: string
+}
+
+/**
+ * Options for `createRetryInterceptor`.
+ */
+export type RetryOptions = RetryPolicy & {
+  /** Policies for individual methods, merged over the client-wide policy. */
+  methods?: Record<string, RetryPolicy>
+}
+
+// Resolves after a delay, or rejects once the signal is aborted
+function wait(delay: number, signal: AbortSignal | undefined) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError())
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    function onAbort() {
+      clearTimeout(timer)
+      reject(new AbortError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function isRetryable(error: unknown, retryOn: RetryPolicy['retryOn']) {
+  if (typeof retryOn === 'function') {
+    return retryOn(error)
+  }
+  if (!(error instanceof RPCError)) {
+    // Errors other than RPCErrors come from the transport, such as fetch
+    // failing to connect
+    return retryOn === undefined
+  }
+  // Timeouts and lost connections
+  return (retryOn ?? [-32001, -32003]).includes(error.code)
+}
+
+/**
+ * Creates a client interceptor that retries failed calls with exponential
+ * backoff. Notifications are never retried. Retried batch calls are sent on
+ * their own. Each attempt gets the call's full `timeout`, and aborting the
+ * call's signal stops waiting to retry.
+ *
+ * @param opts - The retry policy, with optional per-method policies
+ * @returns An interceptor to pass in the client's `interceptors` option
+ *
+ * @example
+ * ```typescript
+ * const client = createFetchClient<MyService>('/api', undefined, {
+ *   interceptors: [
+ *     createRetryInterceptor({
+ *       maxAttempts: 5,
+ *       methods: {
+ *         getUser: { safe: true },
+ *         createOrder: { safe: true, idempotencyKey: 'requestId' },
+ *       },
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function createRetryInterceptor(opts: RetryOptions): Interceptor {
+  return async (ctx, next) => {
+    const policy = { ...opts, ...opts.methods?.[ctx.method] }
+    const {
+      safe = false,
+      maxAttempts = 3,
+      minDelay = 100,
+      maxDelay = 5000,
+      retryOn,
+      idempotencyKey,
+    } = policy
+    if (ctx.notification || !safe) {
+      return next()
+    }
+
+    if (
+      idempotencyKey &&
+      (ctx.params === undefined ||
+        (typeof ctx.params === 'object' && !Array.isArray(ctx.params)))
+    ) {
+      ctx.params = { ...ctx.params, [idempotencyKey]: crypto.randomUUID() }
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next()
+      } catch (error) {
+        if (attempt >= maxAttempts || !isRetryable(error, retryOn)) {
+          throw error
+        }
+      }
+
+      // Exponential backoff, with jitter to spread out retrying clients
+      const delay = Math.min(maxDelay, minDelay * 2 ** (attempt - 1))
+      await wait(delay / 2 + (Math.random() * delay) / 2, ctx.signal)
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import { type Codec, jsonCodec } from './codec'
+import type { Message, Payload } from './jsonrpc'
+
+/**
+ * A custom type sent by a rich codec.
+ *
+ * @template T - The type of values handled
+ * @template Data - The serialized form of values
+ */
+export type RichType<T, Data = unknown> = {
+  /** Unique name tagging serialized values of this type. */
+  name: string
+
+  /**
+   * Whether a value should be serialized as this type.
+   *
+   * @param value - Any value being encoded
+   * @returns True for values of this type
+   */
+  isType(value: unknown): value is T
+
+  /**
+   * Converts a value to data that can itself be encoded, which may contain
+   * other rich values.
+   *
+   * @param value - The value to serialize
+   * @returns The serialized data
+   */
+  serialize(value: T): Data
+
+  /**
+   * Restores a value from its serialized data.
+   *
+   * @param data - The decoded data
+   * @returns The restored value
+   */
+  deserialize(data: Data): T
+}
+
+/**
+ * Options for `createRichCodec`.
+ */
+export type RichCodecOptions = {
+  /** Custom types to send, checked before the built-in types. */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  types?: RichType<any, any>[]
+
+  /** Codec that encodes the tagged payloads. Defaults to JSON. */
+  codec?: Codec
+}
+
+// Key marking an object as a tagged value
+const tagKey = '$type'
+
+type Tagged = { [tagKey]: string; value?: unknown }
+
+function isPlainObject(value: object) {
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function mapObject(
+  object: object,
+  fn: (value: unknown) => unknown,
+): Record<string, unknown> {
+  // fromEntries defines properties, so keys like __proto__ stay plain properties
+  return Object.fromEntries(
+    Object.entries(object).map(([key, value]) => [key, fn(value)]),
+  )
+}
+
+const builtinTypes: RichType<unknown>[] = [
+  {
+    name: 'undefined',
+    isType: (value) => value === undefined,
+    serialize: () => null,
+    deserialize: () => undefined,
+  },
+  {
+    name: 'number',
+    isType: (value): value is number =>
+      typeof value === 'number' && !Number.isFinite(value),
+    serialize: (value) => String(value),
+    deserialize: (data) => Number(data),
+  },
+  {
+    name: 'bigint',
+    isType: (value) => typeof value === 'bigint',
+    serialize: (value) => String(value),
+    deserialize: (data) => BigInt(data as string),
+  },
+  {
+    name: 'Date',
+    isType: (value): value is Date => value instanceof Date,
+    serialize: (value) => {
+      const date = value as Date
+      return Number.isNaN(date.getTime()) ? null : date.toISOString()
+    },
+    deserialize: (data) => new Date(data === null ? Number.NaN : String(data)),
+  },
+  {
+    name: 'Map',
+    isType: (value) => value instanceof Map,
+    serialize: (value) => [...(value as Map<unknown, unknown>)],
+    deserialize: (data) => new Map(data as [unknown, unknown][]),
+  },
+  {
+    name: 'Set',
+    isType: (value) => value instanceof Set,
+    serialize: (value) => [...(value as Set<unknown>)],
+    deserialize: (data) => new Set(data as unknown[]),
+  },
+]
+
+/**
+ * Creates a codec that sends values JSON can't represent, restoring them on
+ * the other end: `Date`, `BigInt`, `Map`, `Set`, `undefined`, `NaN` and
+ * `Infinity`, along with any custom types given. Other values are encoded
+ * unchanged, so peers using plain JSON can still read calls that only contain
+ * JSON values. Both ends of a connection must use a rich codec with the same
+ * custom types.
+ *
+ * Rich values are tagged with a `$type` property, and plain objects that have
+ * a `$type` property of their own are escaped.
+ *
+ * @param opts - Optional custom types and underlying codec
+ * @returns A codec to pass to client and server transports
+ *
+ * @example
+ * ```typescript
+ * const codec = createRichCodec({
+ *   types: [{
+ *     name: 'Money',
+ *     isType: (value) => value instanceof Money,
+ *     serialize: (money) => [money.amount, money.currency],
+ *     deserialize: ([amount, currency]) => new Money(amount, currency),
+ *   }],
+ * });
+ * const client = createWebSocketClient<MyService>(socket, { codec });
+ * ```
+ */
+export function createRichCodec(opts: RichCodecOptions = {}): Codec {
+  const { codec = jsonCodec } = opts
+  const types = [...(opts.types ?? []), ...builtinTypes]
+  const typesByName = new Map(types.map((type) => [type.name, type]))
+
+  function serialize(value: unknown): unknown {
+    for (const type of types) {
+      if (type.isType(value)) {
+        return { [tagKey]: type.name, value: serialize(type.serialize(value)) }
+      }
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value
+    }
+    if (Array.isArray(value)) {
+      return value.map(serialize)
+    }
+    if (
+      !isPlainObject(value) &&
+      typeof (value as { toJSON?: unknown }).toJSON === 'function'
+    ) {
+      return serialize((value as { toJSON(): unknown }).toJSON())
+    }
+    const object = mapObject(value, serialize)
+    return tagKey in object ? { [tagKey]: 'object', value: object } : object
+  }
+
+  // Members of messages and their errors are left out when undefined, as with
+  // JSON, except for results of methods returning undefined
+  function serializeMembers(object: object): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(object)
+        .filter(([key, value]) => value !== undefined || key === 'result')
+        .map(([key, value]) => [
+          key,
+          key === 'error' ? serializeMembers(value) : serialize(value),
+        ]),
+    )
+  }
+
+  function deserialize(data: unknown): unknown {
+    if (typeof data !== 'object' || data === null) {
+      return data
+    }
+    if (Array.isArray(data)) {
+      return data.map(deserialize)
+    }
+    if (!(tagKey in data)) {
+      return mapObject(data, deserialize)
+    }
+    const { [tagKey]: name, value } = data as Tagged
+    if (name === 'object') {
+      return mapObject(value as object, deserialize)
+    }
+    const type = typesByName.get(name)
+    if (!type) {
+      throw new TypeError(`Unknown type ${name}`)
+    }
+    return type.deserialize(deserialize(value))
+  }
+
+  return {
+    contentType: codec.contentType,
+
+    encode(payload) {
+      return codec.encode(
+        (Array.isArray(payload)
+          ? payload.map(serializeMembers)
+          : serializeMembers(payload)) as Payload,
+      )
+    },
+
+    decode(data) {
+      return deserialize(codec.decode(data)) as Payload
+    },
+  }
+}
@@ -0,0 +1,119 @@
+import { RPCError } from './error'
+
+/**
+ * The Standard Schema interface, implemented by validation libraries such as
+ * Zod, Valibot and ArkType. See https://standardschema.dev.
+ *
+ * @template Input - Type of values accepted by the schema
+ * @template Output - Type of values produced by the schema
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaV1.Result<Output>
+      | Promise<StandardSchemaV1.Result<Output>>
+    readonly types?:
+      | { readonly input: Input; readonly output: Output }
+      | undefined
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+  type Result<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: readonly Issue[] }
+
+  type Issue = {
+    readonly message: string
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[]
+  }
+
+  type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['input']
+
+  type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['output']
+}
+
+/**
+ * Validators for a single method.
+ */
+export type MethodSchema = {
+  /** Validates incoming params on the server. */
+  params?: StandardSchemaV1
+
+  /** Validates results, on the server before replying and on the client. */
+  result?: StandardSchemaV1
+}
+
+/**
+ * Validators for each method of a service.
+ */
+export type ServiceSchema = Record<string, MethodSchema>
+
+/**
+ * Infers a `Service` type from a service schema. Methods take the input type
+ * of their params schema and return the output type of their result schema.
+ *
+ * @template S - The service schema
+ *
+ * @example
+ * ```typescript
+ * const myServiceSchema = {
+ *   add: { params: z.object({ x: z.number(), y: z.number() }), result: z.number() },
+ * } satisfies ServiceSchema
+ *
+ * type MyService = InferService<typeof myServiceSchema>
+ * ```
+ */
+export type InferService<S extends ServiceSchema> = {
+  [K in keyof S]: S[K] extends { params: StandardSchemaV1 }
+    ? (params: StandardSchemaV1.InferInput<S[K]['params']>) => InferResult<S[K]>
+    : () => InferResult<S[K]>
+}
+
+type InferResult<M extends MethodSchema> = M extends {
+  result: StandardSchemaV1
+}
+  ? StandardSchemaV1.InferOutput<M['result']>
+  : unknown
+
+/**
+ * Validates a value against a schema, throwing an `RPCError` with the given
+ * code and message and the schema issues in `data` on failure.
+ *
+ * @param schema - The schema to validate against
+ * @param value - The value to validate
+ * @param error - Code and message of the error to throw on failure
+ * @param error.code - JSON-RPC error code
+ * @param error.message - JSON-RPC error message
+ * @returns The validated value, as produced by the schema
+ */
+export async function validate(
+  schema: StandardSchemaV1,
+  value: unknown,
+  error: { code: number; message: string },
+): Promise<unknown> {
+  const result = await schema['~standard'].validate(value)
+  if (result.issues) {
+    throw new RPCError(error.message, {
+      code: error.code,
+      data: {
+        issues: result.issues.map((issue) => ({
+          message: issue.message,
+          path: issue.path?.map((segment) =>
+            typeof segment === 'object' ? segment.key : segment,
+          ),
+        })),
+      },
+    })
+  }
+  return result.value
+}
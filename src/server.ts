@@ -1,7 +1,30 @@
+import { type CodecOptions, jsonCodec } from './codec'
+import {
+  createOpenRPCDocument,
+  discoverMethod,
+  type ServiceDescription,
+} from './discover'
 import { RPCError } from './error'
-import type { ErrorMessage, Message, Payload } from './jsonrpc'
-import { jsonrpc } from './jsonrpc'
+import type {
+  ErrorMessage,
+  Id,
+  Message,
+  Payload,
+  RequestMessage,
+} from './jsonrpc'
+import {
+  cancelRequestMethod,
+  eventMethod,
+  jsonrpc,
+  progressMethod,
+  streamMethod,
+  streamPullMethod,
+  unsubscribeMethod,
+} from './jsonrpc'
+import type { ServiceSchema } from './schema'
+import { validate } from './schema'
 import type { Service } from './service'
+import { isTopic, listen, type Topic } from './topic'
 
 /**
  * Server-side handler implementation for service methods.
@@ -11,9 +34,52 @@ import type { Service } from './service'
 export type Handler<T extends Service> = {
   [K in keyof T]: (
     params: Parameters<T[K]>[0],
+    extras: HandlerExtras,
   ) => Awaited<ReturnType<T[K]>> | Promise<Awaited<ReturnType<T[K]>>>
 }
 
+/**
+ * Extra information about a request, passed to handler methods after the
+ * params.
+ */
+export type HandlerExtras = {
+  /**
+   * Aborted when the client cancels the request or its session is stopped.
+   * The reply to a cancelled request is always a "Request cancelled" error.
+   *
+   * @example
+   * ```typescript
+   * const handler: Handler<MyService> = {
+   *   async search({ query }, { signal }) {
+   *     return fetch(`/search?q=${query}`, { signal }).then((res) => res.json())
+   *   },
+   * }
+   * ```
+   */
+  signal: AbortSignal
+
+  /**
+   * Sends a progress update to the client, which receives it through the
+   * call's `onProgress` option. Does nothing for notifications, or over
+   * transports that only reply once, such as HTTP.
+   *
+   * @param value - The progress to report, such as a fraction or a message
+   *
+   * @example
+   * ```typescript
+   * const handler: Handler<MyService> = {
+   *   async indexFiles({ files }, { reportProgress }) {
+   *     for (const [index, file] of files.entries()) {
+   *       await indexFile(file)
+   *       reportProgress({ done: index + 1, total: files.length })
+   *     }
+   *   },
+   * }
+   * ```
+   */
+  reportProgress(value: unknown): void
+}
+
 /**
  * RPC server interface.
  */
@@ -24,16 +90,229 @@ export type Server = {
   stop(): void
 }
 
+/**
+ * State for a single connection to a client, shared across calls to `handle()`.
+ * Sessions enable features that send messages to the client outside of a
+ * reply, such as streaming results.
+ */
+export type Session = {
+  /**
+   * Sends a message to the client.
+   */
+  readonly send: (message: Message) => void
+
+  /**
+   * Cancels any requests still in progress on this session, and ends its
+   * subscriptions.
+   */
+  stop(): void
+}
+
+type StreamState = {
+  credits: number
+  wake?: () => void
+}
+
+type SessionState = {
+  // Aborts each request in progress, by id
+  requests: Map<Id, AbortController>
+  streams: Map<Id, StreamState>
+  // Ids of streams granted credits before their request arrived, oldest first
+  earlyStreams: Set<Id>
+  // Removes the listener of each subscription, by subscribing request id
+  subscriptions: Map<Id, () => void>
+}
+
+const sessionStates = new WeakMap<Session, SessionState>()
+
+/**
+ * Creates a session for a connection to a client.
+ *
+ * @param send - Function that sends a message to the client
+ * @returns A new session to pass to `handle()`
+ */
+export function createSession(send: (message: Message) => void): Session {
+  const state: SessionState = {
+    requests: new Map(),
+    streams: new Map(),
+    earlyStreams: new Set(),
+    subscriptions: new Map(),
+  }
+  const session: Session = {
+    send,
+    stop() {
+      for (const controller of state.requests.values()) {
+        controller.abort()
+      }
+      state.requests.clear()
+      state.streams.clear()
+      state.earlyStreams.clear()
+      for (const unlisten of state.subscriptions.values()) {
+        unlisten()
+      }
+      state.subscriptions.clear()
+    },
+  }
+  sessionStates.set(session, state)
+  return session
+}
+
+// Clients grant credits just before sending a streaming request, but a
+// request may never follow, so only this many are kept waiting per session
+const maxEarlyStreams = 1000
+
+function getStream(state: SessionState, id: Id) {
+  let stream = state.streams.get(id)
+  if (!stream) {
+    stream = { credits: 0 }
+    state.streams.set(id, stream)
+    if (!state.requests.has(id)) {
+      state.earlyStreams.add(id)
+      if (state.earlyStreams.size > maxEarlyStreams) {
+        const [oldest] = state.earlyStreams
+        state.earlyStreams.delete(oldest)
+        state.streams.delete(oldest)
+      }
+    }
+  }
+  return stream
+}
+
+// Names of a handler's methods, including those of class instances' prototypes
+export function getMethodNames(handler: object) {
+  const names = new Set<string>()
+  for (
+    let object: object | null = handler;
+    object && object !== Object.prototype;
+    object = Object.getPrototypeOf(object)
+  ) {
+    for (const name of Object.getOwnPropertyNames(object)) {
+      if (
+        name !== 'constructor' &&
+        typeof (handler as Record<string, unknown>)[name] === 'function'
+      ) {
+        names.add(name)
+      }
+    }
+  }
+  return names
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' && value !== null && Symbol.asyncIterator in value
+  )
+}
+
+/**
+ * State passed along the server middleware chain for a single request.
+ *
+ * @template Context - Type of context passed to handler factory
+ */
+export type MiddlewareContext<Context = unknown> = {
+  /** The parsed incoming request. */
+  readonly message: RequestMessage
+
+  /** The transport context, such as the originating MessageEvent. */
+  readonly context: Context
+
+  /** The name of the method being called. */
+  readonly method: string
+
+  /** Aborted when the client cancels the request. */
+  readonly signal: AbortSignal
+
+  /**
+   * The params the method will be called with. Middleware may replace these
+   * before calling `next()`.
+   */
+  params: RequestMessage['params']
+}
+
+/**
+ * Server middleware that wraps method calls. Calling `next()` runs the rest of
+ * the chain and resolves with the method's result. Middleware may return a
+ * result without calling `next()`, throw an `RPCError`, or transform the
+ * result returned by `next()`. Protocol notifications, whose methods start with
+ * `$/`, are handled by the server itself and don't pass through middleware.
+ *
+ * @template Context - Type of context passed to handler factory
+ *
+ * @example
+ * ```typescript
+ * const logger: Middleware = async (ctx, next) => {
+ *   const start = performance.now()
+ *   try {
+ *     return await next()
+ *   } finally {
+ *     console.log(ctx.method, performance.now() - start)
+ *   }
+ * }
+ * ```
+ */
+export type Middleware<Context = unknown> = (
+  ctx: MiddlewareContext<Context>,
+  next: () => Promise<unknown>,
+) => unknown
+
+/**
+ * Options for serving requests.
+ *
+ * @template Context - Type of context passed to handler factory
+ */
+export type ServerOptions<Context = unknown> = {
+  /**
+   * Middleware to run around each method call, outermost first.
+   */
+  middleware?: Middleware<Context>[]
+
+  /**
+   * Validators for method params and results. Invalid params are rejected with
+   * a -32602 "Invalid params" error and invalid results with a -32603
+   * "Internal error", with the validation issues in the error's data.
+   */
+  schema?: ServiceSchema
+
+  /**
+   * Description of the service. When given, the server answers `rpc.discover`
+   * calls with an OpenRPC document listing its methods.
+   */
+  description?: ServiceDescription
+
+  /**
+   * Runs the messages of a batch one after another, in order, instead of
+   * concurrently. Either true for every message, or the names of the methods
+   * whose messages must run in order. Messages for other methods still run
+   * concurrently.
+   */
+  sequential?: boolean | string[]
+}
+
+/**
+ * Options for a single call to `handle()`.
+ *
+ * @template Context - Type of context passed to handler factory
+ */
+export type HandleOptions<Context = unknown> = ServerOptions<Context> &
+  CodecOptions & {
+    /**
+     * The session of the connection the payload was received on. Without a
+     * session, methods that return an `AsyncIterable` reply with an array of all
+     * of its values instead of streaming them.
+     */
+    session?: Session
+  }
+
 /**
  * Processes incoming RPC requests and returns responses.
  *
  * @template T - The service interface defining available methods
- * @param payloadOrString - RPC payload or JSON string
+ * @param payloadOrData - RPC payload, or JSON text or bytes
  * @param handler - Handler object with method implementations
  * @returns Response payload or undefined for notifications
  */
 export async function handle<T extends Service = never>(
-  payloadOrString: Payload | string,
+  payloadOrData: Payload | string | Uint8Array,
   handler: Handler<T>,
 ): Promise<Payload | undefined>
 
@@ -42,22 +321,126 @@ export async function handle<T extends Service = never>(
  *
  * @template T - The service interface defining available methods
  * @template Context - Type of context passed to handler factory
- * @param payloadOrString - RPC payload or JSON string
+ * @param payloadOrData - RPC payload, or text or bytes to decode with the codec
  * @param handler - Handler object or factory function that receives context
  * @param context - Context object passed to handler factory
+ * @param opts - Optional server configuration, such as middleware, a session or
+ *               a codec
  * @returns Response payload or undefined for notifications
  */
 export async function handle<T extends Service = never, Context = never>(
-  payloadOrString: Payload | string,
+  payloadOrData: Payload | string | Uint8Array,
   handler: Handler<T> | ((context: Context) => Handler<T>),
   context: Context,
+  opts?: HandleOptions<Context>,
 ): Promise<Payload | undefined>
 
 export async function handle<T extends Service, Context>(
-  payloadOrString: Payload | string,
+  payloadOrData: Payload | string | Uint8Array,
   handler: Handler<T> | ((context: Context) => Handler<T>),
   context?: Context,
+  opts?: HandleOptions<Context>,
 ): Promise<Payload | undefined> {
+  const middleware = opts?.middleware ?? []
+  const schema = opts?.schema ?? {}
+  const session = opts?.session
+  const sessionState = session && sessionStates.get(session)
+
+  async function streamResult(
+    iterable: AsyncIterable<unknown>,
+    id: Id | null | undefined,
+    signal: AbortSignal,
+  ): Promise<unknown> {
+    const stream = id != null ? sessionState?.streams.get(id) : undefined
+    if (!stream) {
+      // The client isn't streaming, so reply with all the values at once
+      const values: unknown[] = []
+      for await (const value of iterable) {
+        values.push(value)
+      }
+      return values
+    }
+
+    const iterator = iterable[Symbol.asyncIterator]()
+    signal.addEventListener('abort', () => stream.wake?.())
+
+    for (;;) {
+      while (stream.credits <= 0 && !signal.aborted) {
+        await new Promise<void>((resolve) => {
+          stream.wake = resolve
+        })
+        stream.wake = undefined
+      }
+      if (signal.aborted) {
+        await iterator.return?.()
+        signal.throwIfAborted()
+      }
+
+      const { done, value } = await iterator.next()
+      if (done) {
+        return value ?? null
+      }
+      stream.credits -= 1
+      session!.send({
+        jsonrpc,
+        method: streamMethod,
+        params: { id, value },
+      })
+    }
+  }
+
+  function subscribe(topic: Topic<unknown>, id: Id | null | undefined) {
+    if (!sessionState || id == null) {
+      throw new RPCError('Subscriptions are not supported', { code: -32603 })
+    }
+    sessionState.subscriptions.get(id)?.()
+    sessionState.subscriptions.set(
+      id,
+      listen(topic, (event) => {
+        session!.send({
+          jsonrpc,
+          method: eventMethod,
+          params: { id, event },
+        })
+      }),
+    )
+    return null
+  }
+
+  function onProtocolNotification(message: RequestMessage) {
+    const params = message.params as { id: Id; count?: number } | undefined
+    if (!sessionState || params?.id == null) {
+      return
+    }
+    switch (message.method) {
+      case streamPullMethod: {
+        const stream = getStream(sessionState, params.id)
+        stream.credits += params.count ?? 0
+        stream.wake?.()
+        break
+      }
+      case cancelRequestMethod: {
+        sessionState.requests.get(params.id)?.abort()
+        break
+      }
+      case unsubscribeMethod: {
+        sessionState.subscriptions.get(params.id)?.()
+        sessionState.subscriptions.delete(params.id)
+        break
+      }
+    }
+  }
+
+  // Methods starting with "rpc." are reserved, and never call the handler
+  function getReservedMethod(method: string, handlerObj: Handler<T>) {
+    const description = opts?.description
+    if (method === discoverMethod && description) {
+      return () =>
+        createOpenRPCDocument(description, getMethodNames(handlerObj))
+    }
+    return undefined
+  }
+
   const invalidRequest: ErrorMessage = {
     jsonrpc,
     id: null,
@@ -73,9 +456,19 @@ export async function handle<T extends Service, Context>(
     }
 
     if ('method' in message) {
+      if (message.method.startsWith('$/') && message.id == null) {
+        // Protocol notifications are handled here, and ignored if unsupported
+        onProtocolNotification(message)
+        return
+      }
+
       const handlerObj =
         typeof handler === 'function' ? handler(context!) : handler
-      const fn = handlerObj[message.method]
+      const fn:
+        | ((params: RequestMessage['params'], extras: HandlerExtras) => unknown)
+        | undefined = message.method.startsWith('rpc.')
+        ? getReservedMethod(message.method, handlerObj)
+        : handlerObj[message.method]
       if (!fn) {
         return {
           jsonrpc,
@@ -83,15 +476,72 @@ export async function handle<T extends Service, Context>(
           error: {
             code: -32601,
             message: 'Method not found',
-            data: {
-              method: message.method,
-            },
+            // Reserved methods aren't the handler's, so aren't worth naming
+            data: message.method.startsWith('rpc.')
+              ? undefined
+              : { method: message.method },
           },
         }
       }
 
+      function reportProgress(value: unknown) {
+        if (session && message.id != null && !controller.signal.aborted) {
+          session.send({
+            jsonrpc,
+            method: progressMethod,
+            params: { id: message.id, value },
+          })
+        }
+      }
+
+      const controller = new AbortController()
+      if (message.id != null) {
+        sessionState?.requests.set(message.id, controller)
+        sessionState?.earlyStreams.delete(message.id)
+      }
+
+      const ctx: MiddlewareContext<Context> = {
+        message,
+        context: context!,
+        method: message.method,
+        signal: controller.signal,
+        params: message.params,
+      }
+
+      async function dispatch(index: number): Promise<unknown> {
+        if (index < middleware.length) {
+          return middleware[index](ctx, () => dispatch(index + 1))
+        }
+        const methodSchema = schema[ctx.method]
+        let params = ctx.params
+        if (methodSchema?.params) {
+          params = (await validate(methodSchema.params, params, {
+            code: -32602,
+            message: 'Invalid params',
+          })) as RequestMessage['params']
+        }
+        let result: unknown = await fn!.call(handlerObj, params, {
+          signal: controller.signal,
+          reportProgress,
+        })
+        if (isTopic(result)) {
+          return subscribe(result, message.id)
+        }
+        if (isAsyncIterable(result)) {
+          result = await streamResult(result, message.id, controller.signal)
+        }
+        if (methodSchema?.result) {
+          return validate(methodSchema.result, result, {
+            code: -32603,
+            message: 'Internal error',
+          })
+        }
+        return result
+      }
+
       try {
-        const result = await fn.call(handlerObj, message.params)
+        const result = await dispatch(0)
+        controller.signal.throwIfAborted()
         if (message.id != null) {
           return {
             jsonrpc,
@@ -99,8 +549,12 @@ export async function handle<T extends Service, Context>(
             result,
           }
         }
-      } catch (error) {
+      } catch (caught) {
         if (message.id != null) {
+          // Whatever the handler did, cancelled requests reply the same way
+          const error = controller.signal.aborted
+            ? new RPCError('Request cancelled', { code: -32800 })
+            : caught
           let errorMessage: string
           let errorCode = 0
           let errorData: unknown
@@ -124,14 +578,25 @@ export async function handle<T extends Service, Context>(
             },
           }
         }
+      } finally {
+        if (message.id != null) {
+          if (sessionState?.requests.get(message.id) === controller) {
+            sessionState.requests.delete(message.id)
+          }
+          // Forget stream credits granted to requests that didn't stream
+          sessionState?.streams.delete(message.id)
+        }
       }
     }
   }
 
   let payload: Payload
-  if (typeof payloadOrString === 'string') {
+  if (
+    typeof payloadOrData === 'string' ||
+    payloadOrData instanceof Uint8Array
+  ) {
     try {
-      payload = JSON.parse(payloadOrString) as Payload
+      payload = (opts?.codec ?? jsonCodec).decode(payloadOrData)
     } catch {
       return {
         jsonrpc,
@@ -143,14 +608,29 @@ export async function handle<T extends Service, Context>(
       }
     }
   } else {
-    payload = payloadOrString
+    payload = payloadOrData
   }
 
   if (Array.isArray(payload)) {
     if (!payload.length) {
       return invalidRequest
     }
-    const responseBatch = (await Promise.all(payload.map(onMessage))).filter(
+    const sequential = opts?.sequential ?? false
+    let previous: Promise<unknown> = Promise.resolve()
+    const responses = payload.map((message) => {
+      if (
+        sequential === true ||
+        (sequential &&
+          sequential.includes((message as RequestMessage | null)?.method!))
+      ) {
+        // Start once the previous sequential message has finished
+        const response = previous.then(() => onMessage(message))
+        previous = response
+        return response
+      }
+      return onMessage(message)
+    })
+    const responseBatch = (await Promise.all(responses)).filter(
       (responseMessage) => !!responseMessage,
     )
     if (responseBatch.length > 0) {
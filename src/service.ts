@@ -1,3 +1,5 @@
+import type { RPCError } from './error'
+
 type IsValidParams<T> = T extends object | unknown[] | undefined ? true : false
 
 type ValidateMethod<T> = T extends (params: infer P) => unknown
@@ -17,3 +19,71 @@ export type Service<
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } = Record<string, (params: any) => unknown>,
 > = Methods
+
+declare const errorTypes: unique symbol
+
+/**
+ * Declares the errors a service method may throw, in addition to its params
+ * and result.
+ *
+ * @template F - The method's function type
+ * @template E - Union of `RPCError` subclasses the method may throw
+ *
+ * @example
+ * ```typescript
+ * type MyService = Service<{
+ *   getUser: Throws<(params: { id: string }) => User, NotFoundError | ForbiddenError>
+ * }>
+ * ```
+ */
+export type Throws<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  F extends (params: any) => unknown,
+  E extends RPCError,
+> = F & { readonly [errorTypes]?: E }
+
+/**
+ * The errors declared for a service method with `Throws`, or never if none
+ * were declared.
+ *
+ * @template F - The method's type in the service
+ */
+export type MethodError<F> = F extends { readonly [errorTypes]?: infer E }
+  ? unknown extends E
+    ? never
+    : Exclude<E, undefined>
+  : never
+
+type UnionToIntersection<U> = (
+  U extends unknown
+    ? (union: U) => void
+    : never
+) extends (intersection: infer I) => void
+  ? I
+  : never
+
+/**
+ * A service with the methods of each of several services, named with the
+ * service's prefix and a dot. Services under an empty prefix keep their
+ * method names.
+ *
+ * @template Services - Object type mapping prefixes to services
+ *
+ * @example
+ * ```typescript
+ * type AppService = CombinedService<{ users: UserService; billing: BillingService }>
+ * // { 'users.get': ..., 'users.list': ..., 'billing.charge': ... }
+ * ```
+ */
+export type CombinedService<Services extends Record<string, Service>> =
+  UnionToIntersection<
+    {
+      [Prefix in Extract<keyof Services, string>]: {
+        [K in Extract<keyof Services[Prefix], string> as Prefix extends ''
+          ? K
+          : `${Prefix}.${K}`]: Services[Prefix][K]
+      }
+    }[Extract<keyof Services, string>]
+  > extends infer Combined
+    ? { [K in keyof Combined]: Combined[K] }
+    : never
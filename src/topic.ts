@@ -0,0 +1,96 @@
+/**
+ * A source of events that clients can subscribe to. Declare a topic in a
+ * service as a method returning `Topic<Event>`, and return a topic created with
+ * `createTopic()` from the handler to subscribe the calling client to it.
+ *
+ * @template Event - Type of events emitted to subscribers
+ */
+export type Topic<Event> = {
+  /**
+   * Sends an event to every client subscribed to this topic.
+   *
+   * @param event - The event to send
+   */
+  emit(event: Event): void
+
+  /**
+   * Number of clients currently subscribed to this topic.
+   */
+  readonly size: number
+}
+
+/**
+ * The type of events emitted by a topic.
+ *
+ * @template R - A topic method's return type
+ */
+export type TopicEvent<R> = R extends Topic<infer E> ? E : never
+
+const topicListeners = new WeakMap<
+  Topic<unknown>,
+  Set<(event: unknown) => void>
+>()
+
+/**
+ * Creates a topic that clients can subscribe to.
+ *
+ * @template Event - Type of events emitted to subscribers
+ * @returns A new topic with no subscribers
+ *
+ * @example
+ * ```typescript
+ * const messages = createTopic<ChatMessage>();
+ * const handler: Handler<ChatService> = {
+ *   messages: () => messages,
+ *   send({ text }) { messages.emit({ text }) },
+ * };
+ * ```
+ */
+export function createTopic<Event>(): Topic<Event> {
+  const listeners = new Set<(event: unknown) => void>()
+  const topic: Topic<Event> = {
+    emit(event) {
+      for (const listener of listeners) {
+        listener(event)
+      }
+    },
+
+    get size() {
+      return listeners.size
+    },
+  }
+  topicListeners.set(topic, listeners)
+  return topic
+}
+
+/**
+ * Whether a value is a topic created with `createTopic()`.
+ *
+ * @param value - The value to check
+ * @returns True for topics
+ */
+export function isTopic(value: unknown): value is Topic<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    topicListeners.has(value as Topic<unknown>)
+  )
+}
+
+/**
+ * Adds a listener to a topic.
+ *
+ * @param topic - The topic to listen to
+ * @param listener - Function called with each emitted event
+ * @returns Function that removes the listener
+ */
+export function listen(
+  topic: Topic<unknown>,
+  listener: (event: unknown) => void,
+): () => void {
+  const listeners = topicListeners.get(topic)!
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,69 @@
+const transferLists = new WeakMap<object, Transferable[]>()
+
+/**
+ * Marks a value in call params or a handler result to be transferred rather
+ * than copied when sent over a postMessage, Worker, MessagePort or service
+ * worker transport. Transferred values become unusable by the sender. Other
+ * transports send marked values as usual.
+ *
+ * @template T - Type of the marked value
+ * @param value - The value to send, such as an `ArrayBuffer`, a typed array or
+ *                an object containing transferables
+ * @param transferables - The objects to transfer. Defaults to the value
+ *                        itself, or its buffer for typed arrays.
+ * @returns The value, unchanged
+ *
+ * @example
+ * ```typescript
+ * const pixels = new Uint8Array(width * height * 4);
+ * await client.call('blur', { pixels: transfer(pixels) });
+ * ```
+ */
+export function transfer<T extends object>(
+  value: T,
+  transferables?: Transferable[],
+): T {
+  transferLists.set(
+    value,
+    transferables ??
+      (ArrayBuffer.isView(value)
+        ? [value.buffer as ArrayBuffer]
+        : [value as unknown as Transferable]),
+  )
+  return value
+}
+
+/**
+ * Collects the transferables marked with `transfer()` in a value, searching
+ * through arrays and plain objects.
+ *
+ * @param value - The value to search, usually a payload
+ * @returns The transferables to pass to `postMessage`
+ */
+export function getTransferables(value: unknown): Transferable[] {
+  const found = new Set<Transferable>()
+
+  function visit(value: unknown) {
+    if (typeof value !== 'object' || value === null) {
+      return
+    }
+    const transferables = transferLists.get(value)
+    if (transferables) {
+      for (const transferable of transferables) {
+        found.add(transferable)
+      }
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        visit(item)
+      }
+    } else if (Object.getPrototypeOf(value) === Object.prototype) {
+      for (const item of Object.values(value)) {
+        visit(item)
+      }
+    }
+  }
+
+  visit(value)
+  // Transferring the same object twice throws, so each is listed once
+  return [...found]
+}
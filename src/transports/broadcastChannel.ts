@@ -1,6 +1,6 @@
-import type { Client } from '../client'
+import type { Client, ClientOptions } from '../client'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
+import type { Handler, Server, ServerOptions } from '../server'
 import type { Service } from '../service'
 
 import {
@@ -15,6 +15,7 @@ import {
  *
  * @template T - The service interface that defines available remote methods
  * @param broadcastChannel - The BroadcastChannel instance to use for communication
+ * @param clientOpts - Optional client configuration, such as a default timeout
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -26,6 +27,7 @@ import {
  */
 export const createBroadcastChannelClient: <T extends Service = never>(
   broadcastChannel: BroadcastChannel,
+  clientOpts?: ClientOptions,
 ) => Client<T> = createChannelClient
 
 /**
@@ -36,6 +38,7 @@ export const createBroadcastChannelClient: <T extends Service = never>(
  * @param broadcastChannel - The BroadcastChannel instance to listen on
  * @param handler - Either a handler object implementing T's methods, or a function
  *                  that receives the MessageEvent and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware
  * @returns A server instance that can be stopped
  *
  * @example
@@ -50,4 +53,5 @@ export const createBroadcastChannelServer =
   createChannelServer_ReplyToTarget as <T extends Service = never>(
     broadcastChannel: BroadcastChannel,
     handler: Handler<T> | ((event: MessageEvent<Payload>) => Handler<T>),
+    serverOpts?: ServerOptions<MessageEvent<Payload>>,
   ) => Server
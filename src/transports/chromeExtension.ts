@@ -1,7 +1,7 @@
-import type { Client } from '../client'
+import type { Client, ClientOptions } from '../client'
 import { createClient } from '../client'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
+import type { Handler, Server, ServerOptions } from '../server'
 import { handle } from '../server'
 import type { Service } from '../service'
 
@@ -12,6 +12,7 @@ import type { Service } from '../service'
  *
  * @template T - The service interface that defines available remote methods
  * @param extensionId - Optional extension ID. If not provided, sends to the current extension
+ * @param clientOpts - Optional client configuration, such as a default timeout
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -23,21 +24,25 @@ import type { Service } from '../service'
  */
 export function createChromeExtensionClient<T extends Service = never>(
   extensionId?: string,
+  clientOpts?: ClientOptions,
 ): Client<T> {
-  return createClient((receive) => ({
-    async send(payload) {
-      const reply: Payload = await chrome.runtime.sendMessage(
-        extensionId,
-        payload,
-      )
-      if (reply) {
-        receive(reply)
-      }
-    },
-    stop() {
-      // Nothing
-    },
-  }))
+  return createClient(
+    (receive) => ({
+      async send(payload) {
+        const reply: Payload = await chrome.runtime.sendMessage(
+          extensionId,
+          payload,
+        )
+        if (reply) {
+          receive(reply)
+        }
+      },
+      stop() {
+        // Nothing
+      },
+    }),
+    clientOpts,
+  )
 }
 
 /**
@@ -47,6 +52,7 @@ export function createChromeExtensionClient<T extends Service = never>(
  *
  * @template T - The service interface that defines available remote methods
  * @param tabId - The ID of the tab containing the content script to communicate with
+ * @param clientOpts - Optional client configuration, such as a default timeout
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -58,18 +64,21 @@ export function createChromeExtensionClient<T extends Service = never>(
  */
 export function createChromeExtensionContentScriptClient<
   T extends Service = never,
->(tabId: number): Client<T> {
-  return createClient((receive) => ({
-    async send(payload) {
-      const reply: Payload = await chrome.tabs.sendMessage(tabId, payload)
-      if (reply) {
-        receive(reply)
-      }
-    },
-    stop() {
-      // Nothing
-    },
-  }))
+>(tabId: number, clientOpts?: ClientOptions): Client<T> {
+  return createClient(
+    (receive) => ({
+      async send(payload) {
+        const reply: Payload = await chrome.tabs.sendMessage(tabId, payload)
+        if (reply) {
+          receive(reply)
+        }
+      },
+      stop() {
+        // Nothing
+      },
+    }),
+    clientOpts,
+  )
 }
 
 /**
@@ -81,6 +90,7 @@ export function createChromeExtensionContentScriptClient<
  *                    (e.g., chrome.runtime.onMessage)
  * @param handler - Either a handler object implementing T's methods, or a function
  *                  that receives the sender info and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware
  * @returns A server instance that can be stopped
  *
  * @example
@@ -94,13 +104,14 @@ export function createChromeExtensionContentScriptClient<
 export function createChromeExtensionServer<T extends Service = never>(
   onMessage: chrome.runtime.ExtensionMessageEvent,
   handler: Handler<T> | ((sender: chrome.runtime.MessageSender) => Handler<T>),
+  serverOpts?: ServerOptions<chrome.runtime.MessageSender>,
 ): Server {
   function listener(
     payload: Payload,
     sender: chrome.runtime.MessageSender,
     sendResponse: (response: Payload | undefined) => void,
   ) {
-    void handle(payload, handler, sender).then(sendResponse)
+    void handle(payload, handler, sender, serverOpts).then(sendResponse)
     return true
   }
   onMessage.addListener(listener)
@@ -1,11 +1,19 @@
-import { type Client, createClient } from '../client'
+import {
+  type Client,
+  type ClientOptions,
+  createClient,
+  type Transport,
+} from '../client'
+import { type Codec, type CodecOptions, jsonCodec, toCodecData } from '../codec'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
-import { handle } from '../server'
+import { createPeer, type PeerOptions } from '../peer'
+import type { Handler, Server, ServerOptions, Session } from '../server'
+import { createSession, handle } from '../server'
 import type { Service } from '../service'
+import { getTransferables } from '../transfer'
 
 export type ChannelLike = {
-  postMessage(payload: Payload): void
+  postMessage(payload: Payload, options?: StructuredSerializeOptions): void
   addEventListener(
     event: 'message',
     listener: (event: MessageEvent<Payload>) => void,
@@ -16,21 +24,106 @@ export type ChannelLike = {
   ): void
 }
 
-export function createChannelClient(target: ChannelLike): Client<Service> {
-  return createClient((receive) => {
+export function createChannelTransport(target: ChannelLike): Transport {
+  return (receive) => {
     function listener(event: MessageEvent<Payload>) {
-      receive(event.data)
+      receive(event.data, event)
     }
     target.addEventListener('message', listener)
     return {
       send(payload) {
-        target.postMessage(payload)
+        target.postMessage(payload, { transfer: getTransferables(payload) })
       },
       stop() {
         target.removeEventListener('message', listener)
       },
     }
-  })
+  }
+}
+
+export function createChannelClient<T extends Service = never>(
+  target: ChannelLike,
+  clientOpts?: ClientOptions,
+): Client<T> {
+  return createClient(createChannelTransport(target), clientOpts)
+}
+
+export function createChannelPeer<
+  Local extends Service,
+  Remote extends Service,
+>(
+  target: ChannelLike,
+  handler: Handler<Local> | ((event: MessageEvent<Payload>) => Handler<Local>),
+  peerOpts?: PeerOptions<MessageEvent<Payload>>,
+): Client<Remote> {
+  return createPeer(createChannelTransport(target), handler, peerOpts)
+}
+
+/**
+ * Options restricting which windows postMessage transports talk to.
+ */
+export type PostMessageOptions = {
+  /**
+   * Origin that the receiving window must have for messages to be delivered,
+   * `'/'` for the same origin, or `'*'` for any origin. Servers reply to the
+   * origin of each request by default, and clients send to any origin.
+   */
+  targetOrigin?: string
+
+  /**
+   * Origins to accept messages from, or a function deciding per origin.
+   * Defaults to the target origin when one is given, and otherwise to any
+   * origin.
+   */
+  allowedOrigins?: string[] | ((origin: string) => boolean)
+
+  /**
+   * Called with messages that are ignored because they came from another
+   * window or a disallowed origin, such as to log suspicious activity.
+   *
+   * @param event - The ignored message event
+   * @param reason - Whether the message's `source` or `origin` was rejected
+   */
+  onRejectedMessage?: (event: MessageEvent, reason: 'source' | 'origin') => void
+}
+
+function isAllowedOrigin(origin: string, opts: PostMessageOptions) {
+  const { targetOrigin = '*', allowedOrigins } = opts
+  if (typeof allowedOrigins === 'function') {
+    return allowedOrigins(origin)
+  }
+  if (allowedOrigins) {
+    return allowedOrigins.includes(origin)
+  }
+  if (targetOrigin === '*') {
+    return true
+  }
+  return origin === (targetOrigin === '/' ? self.origin : targetOrigin)
+}
+
+/**
+ * Whether a message should be handled, reporting it to `onRejectedMessage`
+ * if not.
+ *
+ * @param event - The received message event
+ * @param opts - Origin restrictions
+ * @param source - The only window to accept messages from, if any
+ * @returns True if the message passed all checks
+ */
+export function acceptsMessage(
+  event: MessageEvent,
+  opts: PostMessageOptions,
+  source?: MessageEventSource,
+): boolean {
+  if (source && event.source !== source) {
+    opts.onRejectedMessage?.(event, 'source')
+    return false
+  }
+  if (!isAllowedOrigin(event.origin, opts)) {
+    opts.onRejectedMessage?.(event, 'origin')
+    return false
+  }
+  return true
 }
 
 export function createChannelServer_ReplyToSource<
@@ -39,18 +132,46 @@ export function createChannelServer_ReplyToSource<
 >(
   target: Target,
   handler: Handler<T> | ((event: MessageEvent<Payload>) => Handler<T>),
+  serverOpts: ServerOptions<MessageEvent<Payload>> & PostMessageOptions = {},
 ): Server {
+  // Each source window, worker or port gets its own session
+  const sessions = new Map<MessageEventSource, Session>()
+
   function listener(event: MessageEvent<Payload>) {
-    void handle(event.data, handler, event).then((reply) => {
-      if (reply) {
-        event.source!.postMessage(reply, { targetOrigin: event.origin })
-      }
-    })
+    if (!acceptsMessage(event, serverOpts)) {
+      return
+    }
+    const source = event.source!
+    const targetOrigin = serverOpts.targetOrigin ?? event.origin
+    let session = sessions.get(source)
+    if (!session) {
+      session = createSession((message) => {
+        source.postMessage(message, {
+          targetOrigin,
+          transfer: getTransferables(message),
+        })
+      })
+      sessions.set(source, session)
+    }
+    void handle(event.data, handler, event, { ...serverOpts, session }).then(
+      (reply) => {
+        if (reply) {
+          source.postMessage(reply, {
+            targetOrigin,
+            transfer: getTransferables(reply),
+          })
+        }
+      },
+    )
   }
   target.addEventListener('message', listener)
   return {
     stop() {
       target.removeEventListener('message', listener)
+      for (const session of sessions.values()) {
+        session.stop()
+      }
+      sessions.clear()
     },
   }
 }
@@ -61,51 +182,106 @@ export function createChannelServer_ReplyToTarget<
 >(
   target: Target,
   handler: Handler<T> | ((event: MessageEvent<Payload>) => Handler<T>),
+  serverOpts?: ServerOptions<MessageEvent<Payload>>,
 ): Server {
+  const session = createSession((message) => {
+    target.postMessage(message, { transfer: getTransferables(message) })
+  })
+
   function listener(event: MessageEvent<Payload>) {
-    void handle(event.data, handler, event).then((reply) => {
-      if (reply) {
-        target.postMessage(reply)
-      }
-    })
+    void handle(event.data, handler, event, { ...serverOpts, session }).then(
+      (reply) => {
+        if (reply) {
+          target.postMessage(reply, { transfer: getTransferables(reply) })
+        }
+      },
+    )
   }
   target.addEventListener('message', listener)
   return {
     stop() {
       target.removeEventListener('message', listener)
+      session.stop()
     },
   }
 }
 
 export type SocketLike = {
-  send(json: string): void
+  binaryType?: string
+  send(data: string | Uint8Array): void
   addEventListener(
     event: 'message',
     listener: (event: MessageEvent<string>) => void,
   ): void
+  addEventListener(event: 'close', listener: () => void): void
   removeEventListener(
     event: 'message',
     listener: (event: MessageEvent<string>) => void,
   ): void
+  removeEventListener(event: 'close', listener: () => void): void
 }
 
-export function createSocketClient<T extends Service>(
+// Receive binary messages as ArrayBuffers rather than Blobs, which can only be
+// read asynchronously
+function useArrayBuffers(target: SocketLike) {
+  if ('binaryType' in target) {
+    target.binaryType = 'arraybuffer'
+  }
+}
+
+export function createSocketTransport(
   target: SocketLike,
-): Client<T> {
-  return createClient((receive) => {
+  codec: Codec = jsonCodec,
+): Transport {
+  useArrayBuffers(target)
+  return (receive, close) => {
     function listener(event: MessageEvent<string>) {
-      receive(JSON.parse(event.data) as Payload)
+      let payload: Payload
+      try {
+        payload = codec.decode(toCodecData(event.data))
+      } catch {
+        // Ignore malformed messages rather than failing the connection
+        return
+      }
+      receive(payload, event)
+    }
+    function closeListener() {
+      close()
     }
     target.addEventListener('message', listener)
+    target.addEventListener('close', closeListener)
     return {
       send(payload) {
-        target.send(JSON.stringify(payload))
+        target.send(codec.encode(payload))
       },
       stop() {
         target.removeEventListener('message', listener)
+        target.removeEventListener('close', closeListener)
       },
     }
-  })
+  }
+}
+
+export function createSocketClient<T extends Service>(
+  target: SocketLike,
+  clientOpts?: ClientOptions & CodecOptions,
+): Client<T> {
+  return createClient(
+    createSocketTransport(target, clientOpts?.codec),
+    clientOpts,
+  )
+}
+
+export function createSocketPeer<Local extends Service, Remote extends Service>(
+  target: SocketLike,
+  handler: Handler<Local> | ((event: MessageEvent<string>) => Handler<Local>),
+  peerOpts?: PeerOptions<MessageEvent<string>> & CodecOptions,
+): Client<Remote> {
+  return createPeer(
+    createSocketTransport(target, peerOpts?.codec),
+    handler,
+    peerOpts,
+  )
 }
 
 export function createSocketServer<
@@ -114,18 +290,118 @@ export function createSocketServer<
 >(
   target: Target,
   handler: Handler<T> | ((event: MessageEvent<string>) => Handler<T>),
+  serverOpts?: ServerOptions<MessageEvent<string>> & CodecOptions,
 ): Server {
+  const codec = serverOpts?.codec ?? jsonCodec
+  useArrayBuffers(target)
+
+  function send(payload: Payload) {
+    target.send(codec.encode(payload))
+  }
+
+  const session = createSession(send)
+
   function listener(event: MessageEvent<string>) {
-    void handle(event.data, handler, event).then((reply) => {
-      if (reply) {
-        target.send(JSON.stringify(reply))
-      }
-    })
+    let data: string | Uint8Array
+    try {
+      data = toCodecData(event.data)
+    } catch {
+      return
+    }
+    void handle(data, handler, event, { ...serverOpts, session }).then(
+      (reply) => {
+        if (reply) {
+          send(reply)
+        }
+      },
+    )
+  }
+  function closeListener() {
+    session.stop()
   }
   target.addEventListener('message', listener)
+  target.addEventListener('close', closeListener)
   return {
     stop() {
       target.removeEventListener('message', listener)
+      target.removeEventListener('close', closeListener)
+      session.stop()
     },
   }
 }
+
+export type HttpServerOptions<Request, Context> = ServerOptions<Context> &
+  CodecOptions & {
+    /**
+     * Maximum size of request bodies in bytes. Larger requests are rejected with
+     * a 413 status. Defaults to 1 MiB.
+     */
+    maxBodySize?: number
+
+    /**
+     * Creates the context passed to handler factories and middleware from the
+     * incoming request. Defaults to passing the request itself.
+     */
+    context?: (request: Request) => Context | Promise<Context>
+  }
+
+export type HttpRequestLike = {
+  method: string
+  contentType: string | null | undefined
+
+  /** Reads the body, or returns undefined if it exceeds maxBytes. */
+  readBody(maxBytes: number): Promise<Uint8Array | undefined>
+}
+
+export function concatBytes(chunks: Uint8Array[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes
+}
+
+export type HttpReply = {
+  status: number
+  headers: Record<string, string>
+  body?: string | Uint8Array
+}
+
+export async function serveHttp<Request, Context, T extends Service>(
+  request: Request,
+  requestLike: HttpRequestLike,
+  handler: Handler<T> | ((context: Context) => Handler<T>),
+  serverOpts?: HttpServerOptions<Request, Context>,
+): Promise<HttpReply> {
+  if (requestLike.method !== 'POST') {
+    return { status: 405, headers: { Allow: 'POST' } }
+  }
+
+  const codec = serverOpts?.codec ?? jsonCodec
+  const mediaType = requestLike.contentType?.split(';')[0].trim().toLowerCase()
+  if (mediaType !== codec.contentType) {
+    return { status: 415, headers: {} }
+  }
+
+  const body = await requestLike.readBody(
+    serverOpts?.maxBodySize ?? 1024 * 1024,
+  )
+  if (body === undefined) {
+    return { status: 413, headers: { Connection: 'close' } }
+  }
+
+  const context = serverOpts?.context
+    ? await serverOpts.context(request)
+    : (request as unknown as Context)
+  const reply = await handle(body, handler, context, serverOpts)
+  if (!reply) {
+    return { status: 204, headers: {} }
+  }
+  return {
+    status: 200,
+    headers: { 'Content-Type': codec.contentType },
+    body: codec.encode(reply),
+  }
+}
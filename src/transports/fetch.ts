@@ -1,15 +1,22 @@
-import type { Client } from '../client'
+import type { Client, ClientOptions } from '../client'
 import { createClient } from '../client'
+import { type CodecOptions, jsonCodec } from '../codec'
+import type { Handler } from '../server'
 import type { Service } from '../service'
 
+import { concatBytes, type HttpServerOptions, serveHttp } from './common'
+
 /**
  * Creates a JSON-RPC client that communicates over HTTP using fetch.
- * Sends RPC calls as POST requests with JSON payloads to a remote endpoint.
+ * Sends RPC calls as POST requests with JSON payloads to a remote endpoint,
+ * unless another codec is given.
  *
  * @template T - The service interface that defines available remote methods
  * @param url - The URL or URL object of the RPC endpoint
  * @param fetchOpts - Optional fetch configuration (headers, credentials, etc.)
- *                    Content-Type and Accept headers are automatically set to application/json
+ *                    Content-Type and Accept headers are automatically set to the
+ *                    codec's content type, application/json by default
+ * @param clientOpts - Optional client configuration, such as a default timeout or a codec
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -21,32 +28,118 @@ import type { Service } from '../service'
 export function createFetchClient<T extends Service = never>(
   url: string | URL,
   fetchOpts?: RequestInit,
+  clientOpts?: ClientOptions & CodecOptions,
 ): Client<T> {
   const abortController = new AbortController()
+  const codec = clientOpts?.codec ?? jsonCodec
+
+  return createClient(
+    (receive) => ({
+      async send(payload) {
+        const res = await fetch(url, {
+          method: 'POST',
+          ...fetchOpts,
+
+          headers: {
+            'Content-Type': codec.contentType,
+            Accept: codec.contentType,
+            ...fetchOpts?.headers,
+          },
+
+          body: codec.encode(payload),
+          signal: abortController.signal,
+        })
+
+        if (res.status === 200) {
+          void res
+            .arrayBuffer()
+            .then((body) => receive(codec.decode(new Uint8Array(body))))
+        } else if (!res.ok) {
+          throw new Error(`Unexpected HTTP status ${res.status}`)
+        }
+      },
 
-  return createClient((receive) => ({
-    async send(payload) {
-      const res = await fetch(url, {
-        method: 'POST',
-        ...fetchOpts,
-
-        headers: {
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-          ...fetchOpts?.headers,
-        },
-
-        body: JSON.stringify(payload),
-        signal: abortController.signal,
-      })
-
-      if (res.status === 200) {
-        void res.json().then(receive)
-      }
-    },
-
-    stop() {
-      abortController.abort()
-    },
-  }))
+      stop() {
+        abortController.abort()
+      },
+    }),
+    clientOpts,
+  )
+}
+
+async function readBody(request: Request, maxBytes: number) {
+  if (Number(request.headers.get('Content-Length')) > maxBytes) {
+    return undefined
+  }
+  if (!request.body) {
+    return new Uint8Array(0)
+  }
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return undefined
+    }
+    chunks.push(value)
+  }
+
+  return concatBytes(chunks, size)
+}
+
+/**
+ * Creates an HTTP request handler using the standard fetch API Request and
+ * Response types, for use with Deno, Bun, Cloudflare Workers, Hono and others.
+ * Pairs with `createFetchClient`.
+ *
+ * Only POST requests with the codec's content type, JSON by default, are
+ * accepted. Requests that only contain notifications receive an empty 204
+ * response.
+ *
+ * @template T - The service interface that defines the methods this server implements
+ * @template Context - Type of context passed to handler factory, the Request by default
+ * @param handler - Either a handler object implementing T's methods, or a function
+ *                  that receives the context and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware, a body size
+ *                     limit, a codec or a context factory
+ * @returns A function that handles a Request and resolves with a Response
+ *
+ * @example
+ * ```typescript
+ * const fetchHandler = createFetchHandler<MyService>({
+ *   add({ x, y }) { return x + y }
+ * });
+ * Deno.serve(fetchHandler);
+ * ```
+ */
+export function createFetchHandler<
+  T extends Service = never,
+  Context = Request,
+>(
+  handler: Handler<T> | ((context: Context) => Handler<T>),
+  serverOpts?: HttpServerOptions<Request, Context>,
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const reply = await serveHttp(
+      request,
+      {
+        method: request.method,
+        contentType: request.headers.get('Content-Type'),
+        readBody: (maxBytes) => readBody(request, maxBytes),
+      },
+      handler,
+      serverOpts,
+    )
+    return new Response(reply.body ?? null, {
+      status: reply.status,
+      headers: reply.headers,
+    })
+  }
 }
@@ -0,0 +1,314 @@
+/**
+ * How messages are delimited on a byte stream.
+ */
+export type Framing = {
+  /**
+   * Encodes a message for writing to the stream.
+   *
+   * @param data - The message, encoded by a codec
+   * @returns The framed message
+   */
+  encode(data: string | Uint8Array): string | Uint8Array
+
+  /**
+   * Creates a decoder for a single stream. The decoder is given each chunk
+   * read from the stream, and returns the messages completed by that chunk.
+   * Messages may be split across chunks at any byte. Malformed frames are
+   * skipped.
+   *
+   * @param maxMessageSize - Largest message in bytes to accept. The decoder
+   *                         throws once a message is known to be larger,
+   *                         rather than buffering it. Defaults to no limit.
+   * @returns A function that decodes chunks into encoded messages
+   */
+  createDecoder(
+    maxMessageSize?: number,
+  ): (chunk: string | Uint8Array) => Uint8Array[]
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function toBytes(data: string | Uint8Array) {
+  return typeof data === 'string' ? encoder.encode(data) : data
+}
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  const merged = new Uint8Array(a.length + b.length)
+  merged.set(a)
+  merged.set(b, a.length)
+  return merged
+}
+
+// Whether the bytes starting at an offset into the chunks match a sequence
+function matchesAt(
+  chunks: Uint8Array[],
+  index: number,
+  offset: number,
+  search: Uint8Array,
+) {
+  for (const byte of search) {
+    while (index < chunks.length && offset >= chunks[index].length) {
+      offset -= chunks[index].length
+      index += 1
+    }
+    if (index >= chunks.length || chunks[index][offset] !== byte) {
+      return false
+    }
+    offset += 1
+  }
+  return true
+}
+
+// Collects chunks read from a stream, without copying them until a message
+// spanning several chunks is taken
+function createBuffer() {
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  // Returns the first bytes, copying them only if they span chunks
+  function peek(count: number) {
+    const [first = new Uint8Array(0)] = chunks
+    if (first.length >= count) {
+      return first.subarray(0, count)
+    }
+    const bytes = new Uint8Array(count)
+    let filled = 0
+    for (const chunk of chunks) {
+      if (filled >= count) {
+        break
+      }
+      const part = chunk.subarray(0, count - filled)
+      bytes.set(part, filled)
+      filled += part.length
+    }
+    return bytes
+  }
+
+  // Removes the first bytes
+  function skip(count: number) {
+    length -= count
+    while (count > 0) {
+      const first = chunks[0]
+      if (first.length > count) {
+        chunks[0] = first.subarray(count)
+        break
+      }
+      chunks.shift()
+      count -= first.length
+    }
+  }
+
+  return {
+    get length() {
+      return length
+    },
+
+    append(chunk: string | Uint8Array) {
+      const bytes = toBytes(chunk)
+      if (bytes.length > 0) {
+        chunks.push(bytes)
+        length += bytes.length
+      }
+    },
+
+    get lastByte() {
+      const last = chunks[chunks.length - 1]
+      return last?.[last.length - 1]
+    },
+
+    // Finds a sequence of bytes, starting the search at an offset
+    indexOf(search: Uint8Array, from = 0) {
+      let start = 0
+      for (const [index, chunk] of chunks.entries()) {
+        if (start + chunk.length <= from) {
+          start += chunk.length
+          continue
+        }
+        for (
+          let offset = chunk.indexOf(search[0], Math.max(0, from - start));
+          offset >= 0;
+          offset = chunk.indexOf(search[0], offset + 1)
+        ) {
+          if (matchesAt(chunks, index, offset, search)) {
+            return start + offset
+          }
+        }
+        start += chunk.length
+      }
+      return -1
+    },
+
+    peek,
+    skip,
+
+    // Removes and returns the first bytes
+    take(count: number) {
+      const bytes = peek(count)
+      skip(count)
+      return bytes
+    },
+  }
+}
+
+function checkSize(size: number, maxMessageSize = Infinity) {
+  if (size > maxMessageSize) {
+    throw new Error(
+      `Message of ${size} bytes exceeds maxMessageSize of ${maxMessageSize}`,
+    )
+  }
+}
+
+const newline = new Uint8Array([0x0a])
+
+// Whether a line contains only spaces and tabs
+function isBlank(line: Uint8Array) {
+  return line.every((byte) => byte === 0x20 || byte === 0x09)
+}
+
+/**
+ * Newline-delimited JSON, with one message per line. Blank lines are skipped.
+ * Only suitable for text codecs, since binary messages may contain newlines.
+ */
+export const ndjsonFraming: Framing = {
+  encode(data) {
+    return typeof data === 'string'
+      ? data + '\n'
+      : concat(data, new Uint8Array([0x0a]))
+  },
+
+  createDecoder(maxMessageSize) {
+    const buffer = createBuffer()
+    // Bytes of the unfinished line already searched for a newline
+    let searched = 0
+    return (chunk) => {
+      buffer.append(chunk)
+      const messages: Uint8Array[] = []
+      // A newline byte can't be part of a multi-byte character, so splitting
+      // on bytes never splits a character
+      for (;;) {
+        const end = buffer.indexOf(newline, searched)
+        if (end < 0) {
+          searched = buffer.length
+          // The unfinished line, less a carriage return that may end it
+          checkSize(
+            buffer.length - (buffer.lastByte === 0x0d ? 1 : 0),
+            maxMessageSize,
+          )
+          break
+        }
+        searched = 0
+        // Drop the newline, and any carriage return before it
+        let line = buffer.take(end + 1).subarray(0, end)
+        if (line[line.length - 1] === 0x0d) {
+          line = line.subarray(0, -1)
+        }
+        checkSize(line.length, maxMessageSize)
+        if (!isBlank(line)) {
+          messages.push(line)
+        }
+      }
+      return messages
+    }
+  },
+}
+
+// Header blocks larger than this are assumed to be garbage
+const maxHeaderSize = 8192
+
+const headerEnd = encoder.encode('\r\n\r\n')
+
+/**
+ * Messages preceded by a `Content-Length` header, as used by the Language
+ * Server Protocol and Debug Adapter Protocol. Other headers are ignored, and
+ * header blocks without a valid `Content-Length` are skipped.
+ */
+export const contentLengthFraming: Framing = {
+  encode(data) {
+    const body = toBytes(data)
+    return concat(
+      encoder.encode(`Content-Length: ${body.length}\r\n\r\n`),
+      body,
+    )
+  },
+
+  createDecoder(maxMessageSize) {
+    const buffer = createBuffer()
+    // Length of the message being read, once its headers have been read
+    let contentLength: number | undefined
+    // Bytes of the headers already searched for their end
+    let searched = 0
+
+    return (chunk) => {
+      buffer.append(chunk)
+      const messages: Uint8Array[] = []
+      for (;;) {
+        if (contentLength === undefined) {
+          // The header end may have started in the bytes already searched
+          const end = buffer.indexOf(
+            headerEnd,
+            Math.max(0, searched - headerEnd.length + 1),
+          )
+          if (end < 0) {
+            if (buffer.length > maxHeaderSize) {
+              // Keep the last few bytes in case they start a header end
+              buffer.skip(buffer.length - headerEnd.length)
+            }
+            searched = buffer.length
+            break
+          }
+          searched = 0
+          const headers = decoder.decode(buffer.take(end + headerEnd.length))
+          const match = /^content-length: *(\d+) *$/im.exec(headers)
+          if (match) {
+            contentLength = Number(match[1])
+            checkSize(contentLength, maxMessageSize)
+          }
+        } else if (buffer.length >= contentLength) {
+          messages.push(buffer.take(contentLength))
+          contentLength = undefined
+        } else {
+          break
+        }
+      }
+      return messages
+    }
+  },
+}
+
+/**
+ * Messages preceded by their length in bytes, as a 32-bit big-endian unsigned
+ * integer.
+ */
+export const lengthPrefixedFraming: Framing = {
+  encode(data) {
+    const body = toBytes(data)
+    const frame = new Uint8Array(4 + body.length)
+    new DataView(frame.buffer).setUint32(0, body.length)
+    frame.set(body, 4)
+    return frame
+  },
+
+  createDecoder(maxMessageSize) {
+    const buffer = createBuffer()
+    return (chunk) => {
+      buffer.append(chunk)
+      const messages: Uint8Array[] = []
+      while (buffer.length >= 4) {
+        const prefix = buffer.peek(4)
+        const length = new DataView(
+          prefix.buffer,
+          prefix.byteOffset,
+          prefix.byteLength,
+        ).getUint32(0)
+        checkSize(length, maxMessageSize)
+        if (buffer.length < 4 + length) {
+          break
+        }
+        buffer.skip(4)
+        messages.push(buffer.take(length))
+      }
+      return messages
+    }
+  },
+}
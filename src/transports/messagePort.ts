@@ -1,10 +1,12 @@
-import type { Client } from '../client'
+import type { Client, ClientOptions } from '../client'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
+import type { PeerOptions } from '../peer'
+import type { Handler, Server, ServerOptions } from '../server'
 import type { Service } from '../service'
 
 import {
   createChannelClient,
+  createChannelPeer,
   createChannelServer_ReplyToSource,
 } from './common'
 
@@ -15,6 +17,7 @@ import {
  *
  * @template T - The service interface that defines available remote methods
  * @param messagePort - The MessagePort instance to use for communication
+ * @param clientOpts - Optional client configuration, such as a default timeout
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -26,6 +29,7 @@ import {
  */
 export const createMessagePortClient: <T extends Service = never>(
   messagePort: MessagePort,
+  clientOpts?: ClientOptions,
 ) => Client<T> = createChannelClient
 
 /**
@@ -36,6 +40,7 @@ export const createMessagePortClient: <T extends Service = never>(
  * @param messagePort - The MessagePort instance to listen on
  * @param handler - Either a handler object implementing T's methods, or a function
  *                  that receives the MessageEvent and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware
  * @returns A server instance that can be stopped
  *
  * @example
@@ -51,4 +56,35 @@ export const createMessagePortServer = createChannelServer_ReplyToSource as <
 >(
   messagePort: MessagePort,
   handler: Handler<T> | ((event: MessageEvent<Payload>) => Handler<T>),
+  serverOpts?: ServerOptions<MessageEvent<Payload>>,
 ) => Server
+
+/**
+ * Creates a JSON-RPC peer that both calls and serves methods over a single
+ * MessagePort, so both ends of a MessageChannel can call each other.
+ *
+ * @template Local - The service interface that defines the methods this peer implements
+ * @template Remote - The service interface that defines available remote methods
+ * @param messagePort - The MessagePort instance to use for communication
+ * @param handler - Either a handler object implementing Local's methods, or a function
+ *                  that receives the MessageEvent and returns a handler
+ * @param peerOpts - Optional client and server configuration, such as a default timeout or middleware
+ * @returns A client instance that can call remote methods defined in Remote
+ *
+ * @example
+ * ```typescript
+ * const channel = new MessageChannel();
+ * const peer = createMessagePortPeer<MyService, TheirService>(channel.port1, {
+ *   add({ x, y }) { return x + y }
+ * });
+ * await peer.call('multiply', { x: 2, y: 3 });
+ * ```
+ */
+export const createMessagePortPeer = createChannelPeer as <
+  Local extends Service = never,
+  Remote extends Service = never,
+>(
+  messagePort: MessagePort,
+  handler: Handler<Local> | ((event: MessageEvent<Payload>) => Handler<Local>),
+  peerOpts?: PeerOptions<MessageEvent<Payload>>,
+) => Client<Remote>
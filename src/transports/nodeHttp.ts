@@ -0,0 +1,105 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+import type { Handler } from '../server'
+import type { Service } from '../service'
+
+import { concatBytes, type HttpServerOptions, serveHttp } from './common'
+
+function readBody(request: IncomingMessage, maxBytes: number) {
+  return new Promise<Uint8Array | undefined>((resolve, reject) => {
+    const chunks: Uint8Array[] = []
+    let size = 0
+
+    function cleanup() {
+      request.off('data', handleData)
+      request.off('end', handleEnd)
+      request.off('error', handleError)
+    }
+
+    function handleData(chunk: Uint8Array) {
+      size += chunk.byteLength
+      if (size > maxBytes) {
+        cleanup()
+        // Discard the rest of the body
+        request.resume()
+        resolve(undefined)
+      } else {
+        chunks.push(chunk)
+      }
+    }
+
+    function handleEnd() {
+      cleanup()
+      resolve(concatBytes(chunks, size))
+    }
+
+    function handleError(error: Error) {
+      cleanup()
+      reject(error)
+    }
+
+    if (Number(request.headers['content-length']) > maxBytes) {
+      request.resume()
+      resolve(undefined)
+      return
+    }
+    request.on('data', handleData)
+    request.on('end', handleEnd)
+    request.on('error', handleError)
+  })
+}
+
+/**
+ * Creates a request listener for a Node.js HTTP server, such as one created by
+ * `http.createServer`. Pairs with `createFetchClient`.
+ *
+ * Only POST requests with the codec's content type, JSON by default, are
+ * accepted. Requests that only contain notifications receive an empty 204
+ * response.
+ *
+ * @template T - The service interface that defines the methods this server implements
+ * @template Context - Type of context passed to handler factory, the IncomingMessage by default
+ * @param handler - Either a handler object implementing T's methods, or a function
+ *                  that receives the context and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware, a body size
+ *                     limit, a codec or a context factory
+ * @returns A request listener to pass to `http.createServer` or `server.on('request')`
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * const server = createServer(createNodeHttpListener<MyService>({
+ *   add({ x, y }) { return x + y }
+ * }));
+ * server.listen(8080);
+ * ```
+ */
+export function createNodeHttpListener<
+  T extends Service = never,
+  Context = IncomingMessage,
+>(
+  handler: Handler<T> | ((context: Context) => Handler<T>),
+  serverOpts?: HttpServerOptions<IncomingMessage, Context>,
+): (request: IncomingMessage, response: ServerResponse) => void {
+  return (request, response) => {
+    serveHttp(
+      request,
+      {
+        method: request.method ?? '',
+        contentType: request.headers['content-type'],
+        readBody: (maxBytes) => readBody(request, maxBytes),
+      },
+      handler,
+      serverOpts,
+    ).then(
+      (reply) => {
+        response.writeHead(reply.status, reply.headers)
+        response.end(reply.body)
+      },
+      () => {
+        response.writeHead(500)
+        response.end()
+      },
+    )
+  }
+}
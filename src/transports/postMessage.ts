@@ -1,44 +1,62 @@
-import type { Client } from '../client'
+import type { Client, ClientOptions } from '../client'
 import { createClient } from '../client'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
+import type { Handler, Server, ServerOptions } from '../server'
 import type { Service } from '../service'
+import { getTransferables } from '../transfer'
 
-import { createChannelServer_ReplyToSource } from './common'
+import {
+  acceptsMessage,
+  createChannelServer_ReplyToSource,
+  type PostMessageOptions,
+} from './common'
 
 /**
  * Creates a JSON-RPC client that communicates using window.postMessage.
  * Enables communication between different windows, iframes, or web workers
- * in a browser environment.
+ * in a browser environment. Only messages sent by the target window are
+ * accepted.
  *
  * @template T - The service interface that defines available remote methods
  * @param target - The target window to send messages to
+ * @param clientOpts - Optional client configuration, such as a default timeout
+ *                     or the target origin
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
  * ```typescript
  * // From iframe to parent window
- * const client = createPostMessageClient<MyService>(window.parent);
+ * const client = createPostMessageClient<MyService>(window.parent, {
+ *   targetOrigin: 'https://example.com',
+ * });
  * await client.call('add', { x: 1, y: 2 });
  * ```
  */
 export function createPostMessageClient<T extends Service = never>(
   target: Window,
+  clientOpts: ClientOptions & PostMessageOptions = {},
 ): Client<T> {
+  const { targetOrigin = '*' } = clientOpts
+
   return createClient((receive) => {
     function listener(event: MessageEvent<Payload>) {
-      receive(event.data)
+      if (acceptsMessage(event, clientOpts, target)) {
+        receive(event.data)
+      }
     }
     self.addEventListener('message', listener)
     return {
       send(payload) {
-        target.postMessage(payload, '*')
+        target.postMessage(payload, {
+          targetOrigin,
+          transfer: getTransferables(payload),
+        })
       },
       stop() {
         self.removeEventListener('message', listener)
       },
     }
-  })
+  }, clientOpts)
 }
 
 /**
@@ -49,6 +67,8 @@ export function createPostMessageClient<T extends Service = never>(
  * @param source - The source window to listen for messages from
  * @param handler - Either a handler object implementing T's methods, or a function
  *                  that receives the MessageEvent and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware or
+ *                     the origins to accept calls from
  * @returns A server instance that can be stopped
  *
  * @example
@@ -56,7 +76,7 @@ export function createPostMessageClient<T extends Service = never>(
  * // In parent window, listening to iframe
  * const server = createPostMessageServer(iframe.contentWindow, {
  *   add({ x, y }) { return x + y }
- * });
+ * }, { allowedOrigins: ['https://example.com'] });
  * ```
  */
 export const createPostMessageServer = createChannelServer_ReplyToSource as <
@@ -64,4 +84,5 @@ export const createPostMessageServer = createChannelServer_ReplyToSource as <
 >(
   source: Window,
   handler: Handler<T> | ((event: MessageEvent<Payload>) => Handler<T>),
+  serverOpts?: ServerOptions<MessageEvent<Payload>> & PostMessageOptions,
 ) => Server
@@ -0,0 +1,267 @@
+import type { Client, ClientOptions, Transport } from '../client'
+import { createClient } from '../client'
+import { type CodecOptions, jsonCodec, toCodecData } from '../codec'
+import type { Id, Message, Payload } from '../jsonrpc'
+import { jsonrpc, streamPullMethod } from '../jsonrpc'
+import type { Service } from '../service'
+
+/**
+ * Connection state of a reconnecting client.
+ *
+ * - `connecting`: Opening a socket, with outgoing messages queued.
+ * - `connected`: The socket is open.
+ * - `disconnected`: Waiting to reconnect, with outgoing messages queued.
+ * - `closed`: The client was stopped or gave up reconnecting.
+ */
+export type ConnectionState =
+  | 'connecting'
+  | 'connected'
+  | 'disconnected'
+  | 'closed'
+
+/**
+ * Options for `createReconnectingWebSocketClient`.
+ */
+export type ReconnectingWebSocketOptions = ClientOptions &
+  CodecOptions & {
+    /** Subprotocols to request when opening each socket. */
+    protocols?: string | string[]
+
+    /**
+     * Creates each socket. Defaults to the global `WebSocket` constructor, and
+     * can be replaced to use a library such as `ws`.
+     */
+    createWebSocket?: (url: string, protocols?: string | string[]) => WebSocket
+
+    /** Milliseconds to wait before the first reconnect attempt. Defaults to 500. */
+    minDelay?: number
+
+    /** Maximum milliseconds to wait between reconnect attempts. Defaults to 30000. */
+    maxDelay?: number
+
+    /**
+     * Number of reconnect attempts in a row before giving up and closing the
+     * client. Defaults to retrying forever.
+     */
+    maxRetries?: number
+
+    /**
+     * Whether calls still awaiting a reply when the connection drops are sent
+     * again after reconnecting, or a function deciding per method. Only enable
+     * this for idempotent methods. Other calls, and streams, are rejected with
+     * a "Connection lost" error. Subscriptions are always made again. Defaults
+     * to false.
+     */
+    replay?: boolean | ((method: string) => boolean)
+
+    /**
+     * Called whenever the connection state changes.
+     *
+     * @param state - The new connection state
+     */
+    onStateChange?: (state: ConnectionState) => void
+  }
+
+function createReconnectingTransport(
+  url: string,
+  opts: ReconnectingWebSocketOptions,
+): Transport {
+  const {
+    protocols,
+    createWebSocket = (url, protocols) => new WebSocket(url, protocols),
+    minDelay = 500,
+    maxDelay = 30000,
+    maxRetries = Infinity,
+    replay = false,
+    onStateChange,
+    codec = jsonCodec,
+  } = opts
+
+  function shouldReplay(method: string) {
+    return typeof replay === 'function' ? replay(method) : replay
+  }
+
+  return (receive, close, reconnect) => {
+    let state: ConnectionState = 'connecting'
+    let socket: WebSocket | undefined
+    let retries = 0
+    let openedBefore = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    // Messages waiting for the socket to open
+    const queue: Payload[] = []
+
+    // Requests sent on the current socket that are still awaiting a reply
+    const inFlight = new Map<Id, Message>()
+
+    // Requests that stream their results, which can't be replayed since the
+    // server would stream them again from the start
+    const streaming = new Set<Id>()
+
+    function setState(newState: ConnectionState) {
+      if (state !== newState) {
+        state = newState
+        onStateChange?.(state)
+      }
+    }
+
+    function trackRequests(payload: Payload) {
+      for (const message of Array.isArray(payload) ? payload : [payload]) {
+        if ('method' in message && message.id != null) {
+          inFlight.set(message.id, message)
+        } else if ('method' in message && message.method === streamPullMethod) {
+          streaming.add((message.params as { id: Id }).id)
+        }
+      }
+    }
+
+    function trackReplies(payload: Payload) {
+      for (const message of Array.isArray(payload) ? payload : [payload]) {
+        if (!('method' in message) && message.id != null) {
+          inFlight.delete(message.id)
+          streaming.delete(message.id)
+        }
+      }
+    }
+
+    function onOpen() {
+      retries = 0
+      setState('connected')
+      for (const payload of queue.splice(0)) {
+        trackRequests(payload)
+        socket!.send(codec.encode(payload))
+      }
+      // The server forgot the lost connection's subscriptions
+      if (openedBefore) {
+        reconnect?.()
+      }
+      openedBefore = true
+    }
+
+    function onMessage(event: MessageEvent<string>) {
+      let payload: Payload
+      try {
+        payload = codec.decode(toCodecData(event.data))
+      } catch {
+        // Ignore malformed messages rather than failing the connection
+        return
+      }
+      trackReplies(payload)
+      receive(payload, event)
+    }
+
+    function onClose() {
+      detach()
+      if (state === 'closed') {
+        return
+      }
+
+      // Replay or fail the requests that were lost with the socket
+      const replayed: Message[] = []
+      for (const message of inFlight.values()) {
+        if (
+          'method' in message &&
+          shouldReplay(message.method) &&
+          !streaming.has(message.id!)
+        ) {
+          replayed.push(message)
+        } else {
+          receive({
+            jsonrpc,
+            id: message.id!,
+            error: { code: -32003, message: 'Connection lost' },
+          })
+        }
+      }
+      inFlight.clear()
+      streaming.clear()
+      queue.unshift(...replayed)
+
+      if (retries >= maxRetries) {
+        stop()
+        close(new Error(`Gave up reconnecting to ${url}`))
+        return
+      }
+      setState('disconnected')
+
+      // Exponential backoff, with jitter to spread out reconnecting clients
+      const delay = Math.min(maxDelay, minDelay * 2 ** retries)
+      retries += 1
+      timer = setTimeout(connect, delay / 2 + (Math.random() * delay) / 2)
+    }
+
+    function onError() {
+      // Errors are followed by a close event, which handles reconnecting
+    }
+
+    function connect() {
+      setState('connecting')
+      socket = createWebSocket(url, protocols)
+      socket.binaryType = 'arraybuffer'
+      // Left attached even after stopping, since some libraries throw on
+      // unhandled errors
+      socket.addEventListener('error', onError)
+      socket.addEventListener('open', onOpen)
+      socket.addEventListener('message', onMessage)
+      socket.addEventListener('close', onClose)
+    }
+
+    function detach() {
+      socket?.removeEventListener('open', onOpen)
+      socket?.removeEventListener('message', onMessage)
+      socket?.removeEventListener('close', onClose)
+    }
+
+    function stop() {
+      clearTimeout(timer)
+      detach()
+      socket?.close()
+      socket = undefined
+      queue.length = 0
+      inFlight.clear()
+      streaming.clear()
+      setState('closed')
+    }
+
+    connect()
+
+    return {
+      send(payload) {
+        if (state === 'connected') {
+          trackRequests(payload)
+          socket!.send(codec.encode(payload))
+        } else {
+          queue.push(payload)
+        }
+      },
+
+      stop,
+    }
+  }
+}
+
+/**
+ * Creates a JSON-RPC client that owns a WebSocket connection, reconnecting
+ * with exponential backoff whenever it drops. Outgoing messages are queued
+ * while disconnected and sent once reconnected.
+ *
+ * @template T - The service interface that defines available remote methods
+ * @param url - The URL of the WebSocket server
+ * @param opts - Optional client and reconnection configuration
+ * @returns A client instance that can call remote methods defined in T
+ *
+ * @example
+ * ```typescript
+ * const client = createReconnectingWebSocketClient<MyService>('wss://example.com/rpc', {
+ *   replay: (method) => method.startsWith('get'),
+ *   onStateChange: (state) => console.log('Connection', state),
+ * });
+ * await client.call('add', { x: 1, y: 2 });
+ * ```
+ */
+export function createReconnectingWebSocketClient<T extends Service = never>(
+  url: string,
+  opts: ReconnectingWebSocketOptions = {},
+): Client<T> {
+  return createClient(createReconnectingTransport(url, opts), opts)
+}
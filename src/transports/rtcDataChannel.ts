@@ -1,8 +1,14 @@
-import type { Client } from '../client'
-import type { Handler, Server } from '../server'
+import type { Client, ClientOptions } from '../client'
+import type { CodecOptions } from '../codec'
+import type { PeerOptions } from '../peer'
+import type { Handler, Server, ServerOptions } from '../server'
 import type { Service } from '../service'
 
-import { createSocketClient, createSocketServer } from './common'
+import {
+  createSocketClient,
+  createSocketPeer,
+  createSocketServer,
+} from './common'
 
 /**
  * Creates a JSON-RPC client that communicates over an RTCDataChannel.
@@ -10,6 +16,7 @@ import { createSocketClient, createSocketServer } from './common'
  *
  * @template T - The service interface that defines available remote methods
  * @param rtcDataChannel - The RTCDataChannel instance to use for communication
+ * @param clientOpts - Optional client configuration, such as a default timeout or a codec
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -21,6 +28,7 @@ import { createSocketClient, createSocketServer } from './common'
  */
 export const createRTCDataChannelClient: <T extends Service = never>(
   rtcDataChannel: RTCDataChannel,
+  clientOpts?: ClientOptions & CodecOptions,
 ) => Client<T> = createSocketClient
 
 /**
@@ -31,6 +39,7 @@ export const createRTCDataChannelClient: <T extends Service = never>(
  * @param rtcDataChannel - The RTCDataChannel instance to listen on
  * @param handler - Either a handler object implementing T's methods, or a function
  *                  that receives the MessageEvent and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware or a codec
  * @returns A server instance that can be stopped
  *
  * @example
@@ -47,4 +56,34 @@ export const createRTCDataChannelServer = createSocketServer as <
 >(
   rtcDataChannel: RTCDataChannel,
   handler: Handler<T> | ((event: MessageEvent<string>) => Handler<T>),
+  serverOpts?: ServerOptions<MessageEvent<string>> & CodecOptions,
 ) => Server
+
+/**
+ * Creates a JSON-RPC peer that both calls and serves methods over a single
+ * RTCDataChannel, so either side of the connection can call the other.
+ *
+ * @template Local - The service interface that defines the methods this peer implements
+ * @template Remote - The service interface that defines available remote methods
+ * @param rtcDataChannel - The RTCDataChannel instance to use for communication
+ * @param handler - Either a handler object implementing Local's methods, or a function
+ *                  that receives the MessageEvent and returns a handler
+ * @param peerOpts - Optional client and server configuration, such as a default timeout, middleware or a codec
+ * @returns A client instance that can call remote methods defined in Remote
+ *
+ * @example
+ * ```typescript
+ * const dataChannel = peerConnection.createDataChannel('rpc');
+ * const peer = createRTCDataChannelPeer<MyService, TheirService>(dataChannel, {
+ *   add({ x, y }) { return x + y }
+ * });
+ * ```
+ */
+export const createRTCDataChannelPeer = createSocketPeer as <
+  Local extends Service = never,
+  Remote extends Service = never,
+>(
+  rtcDataChannel: RTCDataChannel,
+  handler: Handler<Local> | ((event: MessageEvent<string>) => Handler<Local>),
+  peerOpts?: PeerOptions<MessageEvent<string>> & CodecOptions,
+) => Client<Remote>
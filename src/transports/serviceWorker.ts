@@ -1,15 +1,17 @@
-import type { Client } from '../client'
+import type { Client, ClientOptions } from '../client'
 import { createClient } from '../client'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
-import { handle } from '../server'
+import type { Handler, Server, ServerOptions } from '../server'
+import { createSession, handle } from '../server'
 import type { Service } from '../service'
+import { getTransferables } from '../transfer'
 
 /**
  * Creates a JSON-RPC client for communicating with a service worker.
  * Enables communication from a web page to its controlling service worker.
  *
  * @template T - The service interface that defines available remote methods
+ * @param clientOpts - Optional client configuration, such as a default timeout
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -19,9 +21,9 @@ import type { Service } from '../service'
  * await client.call('add', { x: 1, y: 2 });
  * ```
  */
-export function createServiceWorkerClient<
-  T extends Service = never,
->(): Client<T> {
+export function createServiceWorkerClient<T extends Service = never>(
+  clientOpts?: ClientOptions,
+): Client<T> {
   return createClient((receive) => {
     function listener(event: MessageEvent<Payload>) {
       receive(event.data)
@@ -29,13 +31,15 @@ export function createServiceWorkerClient<
     self.addEventListener('message', listener)
     return {
       send(payload) {
-        navigator.serviceWorker.controller!.postMessage(payload)
+        navigator.serviceWorker.controller!.postMessage(payload, {
+          transfer: getTransferables(payload),
+        })
       },
       stop() {
         self.removeEventListener('message', listener)
       },
     }
-  })
+  }, clientOpts)
 }
 
 /**
@@ -44,6 +48,7 @@ export function createServiceWorkerClient<
  *
  * @template T - The service interface that defines the methods this server implements
  * @param handler - A handler object implementing T's methods
+ * @param serverOpts - Optional server configuration, such as middleware
  * @returns A server instance that can be stopped
  *
  * @example
@@ -56,18 +61,30 @@ export function createServiceWorkerClient<
  */
 export function createServiceWorkerServer<T extends Service = never>(
   handler: Handler<T>,
+  serverOpts?: ServerOptions<MessageEvent<Payload>>,
 ): Server {
-  function listener(event: MessageEvent<Payload>) {
-    void handle(event.data, handler, event).then((reply) => {
-      if (reply) {
-        navigator.serviceWorker.controller!.postMessage(reply)
-      }
+  const session = createSession((message) => {
+    navigator.serviceWorker.controller!.postMessage(message, {
+      transfer: getTransferables(message),
     })
+  })
+
+  function listener(event: MessageEvent<Payload>) {
+    void handle(event.data, handler, event, { ...serverOpts, session }).then(
+      (reply) => {
+        if (reply) {
+          navigator.serviceWorker.controller!.postMessage(reply, {
+            transfer: getTransferables(reply),
+          })
+        }
+      },
+    )
   }
   navigator.serviceWorker.addEventListener('message', listener)
   return {
     stop() {
       navigator.serviceWorker.removeEventListener('message', listener)
+      session.stop()
     },
   }
 }
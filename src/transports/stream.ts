@@ -1,66 +1,145 @@
-import { type Client, createClient } from '../client'
+import {
+  type Client,
+  type ClientOptions,
+  createClient,
+  type Transport,
+} from '../client'
+import { type Codec, type CodecOptions, jsonCodec } from '../codec'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
-import { handle } from '../server'
+import { createPeer, type PeerOptions } from '../peer'
+import type { Handler, Server, ServerOptions } from '../server'
+import { createSession, handle } from '../server'
 import type { Service } from '../service'
 
+import { type Framing, ndjsonFraming } from './framing'
+
+/**
+ * Options for transports over Node.js streams.
+ */
+export type NodeStreamOptions = CodecOptions & {
+  /**
+   * How messages are delimited on the streams. Defaults to newline-delimited
+   * JSON, and `contentLengthFraming` can be used to talk to language servers.
+   */
+  framing?: Framing
+
+  /**
+   * Largest message in bytes to accept. Receiving a larger message, or a frame
+   * header claiming one, stops reading and ends the output stream. Defaults to
+   * 16 MiB.
+   */
+  maxMessageSize?: number
+}
+
+const defaultMaxMessageSize = 16 * 1024 * 1024
+
+function createNodeStreamTransport(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  {
+    framing = ndjsonFraming,
+    codec = jsonCodec,
+    maxMessageSize = defaultMaxMessageSize,
+  }: NodeStreamOptions = {},
+): Transport {
+  return (receive, close) => {
+    const decode = framing.createDecoder(maxMessageSize)
+
+    function handleData(chunk: string | Uint8Array) {
+      let messages: Uint8Array[]
+      try {
+        messages = decode(chunk)
+      } catch (error) {
+        // The stream can't be trusted after an oversized frame, so end the
+        // connection for the other side too
+        stop()
+        output.end()
+        close(error)
+        return
+      }
+      for (const data of messages) {
+        let payload: Payload
+        try {
+          payload = codec.decode(data)
+        } catch {
+          // Ignore malformed messages rather than failing the stream
+          continue
+        }
+        receive(payload)
+      }
+    }
+
+    function handleEnd() {
+      close()
+    }
+
+    function handleError(error: Error) {
+      close(error)
+    }
+
+    function stop() {
+      input.off('data', handleData)
+      input.off('end', handleEnd)
+      input.off('error', handleError)
+    }
+
+    input.on('data', handleData)
+    input.on('end', handleEnd)
+    input.on('error', handleError)
+
+    return {
+      send(payload) {
+        if (output.writable) {
+          output.write(framing.encode(codec.encode(payload)))
+        }
+      },
+      stop,
+    }
+  }
+}
+
 /**
  * Creates a JSON-RPC client that communicates over Node.js streams.
  * Enables communication between Node.js processes using readable/writable streams.
- * Messages are sent as newline-delimited JSON.
+ * Messages are sent as newline-delimited JSON unless another framing is given.
  *
  * @template T - The service interface that defines available remote methods
  * @param input - The readable stream to receive messages from
  * @param output - The writable stream to send messages to
+ * @param clientOpts - Optional client configuration, such as a default timeout, framing or codec
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
  * ```typescript
  * import { spawn } from 'child_process';
- * const child = spawn('some-program');
- * const client = createNodeStreamClient<MyService>(child.stdout, child.stdin);
- * await client.call('add', { x: 1, y: 2 });
+ * const child = spawn('typescript-language-server', ['--stdio']);
+ * const client = createNodeStreamClient<MyService>(child.stdout, child.stdin, {
+ *   framing: contentLengthFraming,
+ * });
+ * await client.call('initialize', { capabilities: {} });
  * ```
  */
 export function createNodeStreamClient<T extends Service>(
   input: NodeJS.ReadableStream,
   output: NodeJS.WritableStream,
+  clientOpts?: ClientOptions & NodeStreamOptions,
 ): Client<T> {
-  return createClient((receive) => {
-    let buffer = ''
-
-    function handleData(chunk: string) {
-      buffer += chunk
-      const lines = buffer.split('\n')
-      buffer = lines.pop() ?? ''
-
-      for (const line of lines) {
-        receive(JSON.parse(line) as Payload)
-      }
-    }
-
-    input.on('data', handleData)
-
-    return {
-      send(payload) {
-        output.write(JSON.stringify(payload) + '\n')
-      },
-      stop() {
-        input.off('data', handleData)
-      },
-    }
-  })
+  return createClient(
+    createNodeStreamTransport(input, output, clientOpts),
+    clientOpts,
+  )
 }
 
 /**
  * Creates a JSON-RPC server that communicates over Node.js streams.
  * Listens for RPC calls from readable stream and responds via writable stream.
- * Messages are sent as newline-delimited JSON.
+ * Messages are sent as newline-delimited JSON unless another framing is given.
  *
  * @template T - The service interface that defines the methods this server implements
  * @param input - The readable stream to receive messages from
  * @param output - The writable stream to send responses to
  * @param handler - A handler object implementing T's methods
+ * @param serverOpts - Optional server configuration, such as middleware, framing or codec
  * @returns A server instance that can be stopped
  *
  * @example
@@ -74,28 +153,96 @@ export function createNodeStreamServer<T extends Service>(
   input: NodeJS.ReadableStream,
   output: NodeJS.WritableStream,
   handler: Handler<T>,
+  serverOpts?: ServerOptions<undefined> & NodeStreamOptions,
 ): Server {
-  let buffer = ''
+  const framing = serverOpts?.framing ?? ndjsonFraming
+  const codec = serverOpts?.codec ?? jsonCodec
+  const decode = framing.createDecoder(
+    serverOpts?.maxMessageSize ?? defaultMaxMessageSize,
+  )
 
-  function handleData(chunk: string) {
-    buffer += chunk
-    const lines = buffer.split('\n')
-    buffer = lines.pop() ?? ''
+  function write(payload: Payload) {
+    // Replies to cancelled requests may arrive after the output has ended
+    if (output.writable) {
+      output.write(framing.encode(codec.encode(payload)))
+    }
+  }
 
-    for (const line of lines) {
-      void handle(line, handler).then((reply) => {
-        if (reply) {
-          output.write(JSON.stringify(reply) + '\n')
-        }
-      })
+  const session = createSession(write)
+
+  function handleData(chunk: string | Uint8Array) {
+    let messages: Uint8Array[]
+    try {
+      messages = decode(chunk)
+    } catch {
+      // The stream can't be trusted after an oversized frame, so end the
+      // connection for the client too
+      stop()
+      output.end()
+      return
+    }
+    // Malformed messages are passed along to handle(), which replies with an
+    // error
+    for (const data of messages) {
+      void handle(data, handler, undefined, { ...serverOpts, session }).then(
+        (reply) => {
+          if (reply) {
+            write(reply)
+          }
+        },
+      )
     }
   }
 
-  input.on('data', handleData)
+  function handleEnd() {
+    session.stop()
+  }
 
-  return {
-    stop() {
-      input.off('data', handleData)
-    },
+  function stop() {
+    input.off('data', handleData)
+    input.off('end', handleEnd)
+    session.stop()
   }
+
+  input.on('data', handleData)
+  input.on('end', handleEnd)
+
+  return { stop }
+}
+
+/**
+ * Creates a JSON-RPC peer that both calls and serves methods over a pair of
+ * Node.js streams, so either process can call the other.
+ * Messages are sent as newline-delimited JSON unless another framing is given.
+ *
+ * @template Local - The service interface that defines the methods this peer implements
+ * @template Remote - The service interface that defines available remote methods
+ * @param input - The readable stream to receive messages from
+ * @param output - The writable stream to send messages to
+ * @param handler - A handler object implementing Local's methods
+ * @param peerOpts - Optional client and server configuration, such as a default timeout, middleware, framing or codec
+ * @returns A client instance that can call remote methods defined in Remote
+ *
+ * @example
+ * ```typescript
+ * const peer = createNodeStreamPeer<MyService, TheirService>(process.stdin, process.stdout, {
+ *   add({ x, y }) { return x + y }
+ * });
+ * await peer.call('multiply', { x: 2, y: 3 });
+ * ```
+ */
+export function createNodeStreamPeer<
+  Local extends Service = never,
+  Remote extends Service = never,
+>(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  handler: Handler<Local>,
+  peerOpts?: PeerOptions<undefined> & NodeStreamOptions,
+): Client<Remote> {
+  return createPeer(
+    createNodeStreamTransport(input, output, peerOpts),
+    handler,
+    peerOpts,
+  )
 }
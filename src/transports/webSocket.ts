@@ -1,8 +1,14 @@
-import type { Client } from '../client'
-import type { Handler, Server } from '../server'
+import type { Client, ClientOptions } from '../client'
+import type { CodecOptions } from '../codec'
+import type { PeerOptions } from '../peer'
+import type { Handler, Server, ServerOptions } from '../server'
 import type { Service } from '../service'
 
-import { createSocketClient, createSocketServer } from './common'
+import {
+  createSocketClient,
+  createSocketPeer,
+  createSocketServer,
+} from './common'
 
 /**
  * Creates a JSON-RPC client that communicates over a WebSocket connection.
@@ -10,6 +16,7 @@ import { createSocketClient, createSocketServer } from './common'
  *
  * @template T - The service interface that defines available remote methods
  * @param webSocket - The WebSocket instance to use for communication
+ * @param clientOpts - Optional client configuration, such as a default timeout or a codec
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -21,6 +28,7 @@ import { createSocketClient, createSocketServer } from './common'
  */
 export const createWebSocketClient: <T extends Service = never>(
   webSocket: WebSocket,
+  clientOpts?: ClientOptions & CodecOptions,
 ) => Client<T> = createSocketClient
 
 /**
@@ -31,6 +39,7 @@ export const createWebSocketClient: <T extends Service = never>(
  * @param webSocket - The WebSocket instance to listen on
  * @param handler - Either a handler object implementing T's methods, or a function
  *                  that receives the MessageEvent and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware or a codec
  * @returns A server instance that can be stopped
  *
  * @example
@@ -48,4 +57,35 @@ export const createWebSocketServer = createSocketServer as <
 >(
   webSocket: WebSocket,
   handler: Handler<T> | ((event: MessageEvent<string>) => Handler<T>),
+  serverOpts?: ServerOptions<MessageEvent<string>> & CodecOptions,
 ) => Server
+
+/**
+ * Creates a JSON-RPC peer that both calls and serves methods over a single
+ * WebSocket connection.
+ *
+ * @template Local - The service interface that defines the methods this peer implements
+ * @template Remote - The service interface that defines available remote methods
+ * @param webSocket - The WebSocket instance to use for communication
+ * @param handler - Either a handler object implementing Local's methods, or a function
+ *                  that receives the MessageEvent and returns a handler
+ * @param peerOpts - Optional client and server configuration, such as a default timeout, middleware or a codec
+ * @returns A client instance that can call remote methods defined in Remote
+ *
+ * @example
+ * ```typescript
+ * const ws = new WebSocket('ws://localhost:8080');
+ * const peer = createWebSocketPeer<MyService, TheirService>(ws, {
+ *   add({ x, y }) { return x + y }
+ * });
+ * await peer.call('multiply', { x: 2, y: 3 });
+ * ```
+ */
+export const createWebSocketPeer = createSocketPeer as <
+  Local extends Service = never,
+  Remote extends Service = never,
+>(
+  webSocket: WebSocket,
+  handler: Handler<Local> | ((event: MessageEvent<string>) => Handler<Local>),
+  peerOpts?: PeerOptions<MessageEvent<string>> & CodecOptions,
+) => Client<Remote>
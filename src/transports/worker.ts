@@ -1,6 +1,6 @@
-import type { Client } from '../client'
+import type { Client, ClientOptions } from '../client'
 import type { Payload } from '../jsonrpc'
-import type { Handler, Server } from '../server'
+import type { Handler, Server, ServerOptions } from '../server'
 import type { Service } from '../service'
 
 import {
@@ -14,6 +14,7 @@ import {
  *
  * @template T - The service interface that defines available remote methods
  * @param worker - The Worker instance to communicate with
+ * @param clientOpts - Optional client configuration, such as a default timeout
  * @returns A client instance that can call remote methods defined in T
  *
  * @example
@@ -25,6 +26,7 @@ import {
  */
 export const createWorkerClient: <T extends Service = never>(
   worker: Worker,
+  clientOpts?: ClientOptions,
 ) => Client<T> = createChannelClient
 
 /**
@@ -35,6 +37,7 @@ export const createWorkerClient: <T extends Service = never>(
  * @param worker - The Worker instance (typically 'self' when used inside a worker)
  * @param handler - Either a handler object implementing T's methods, or a function
  *                  that receives the MessageEvent and returns a handler
+ * @param serverOpts - Optional server configuration, such as middleware
  * @returns A server instance that can be stopped
  *
  * @example
@@ -50,4 +53,5 @@ export const createWorkerServer = createChannelServer_ReplyToTarget as <
 >(
   worker: Worker,
   handler: Handler<T> | ((event: MessageEvent<Payload>) => Handler<T>),
+  serverOpts?: ServerOptions<MessageEvent<Payload>>,
 ) => Server
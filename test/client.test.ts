@@ -1,5 +1,13 @@
-import type { Payload, Service } from '../src'
-import { type Client, RPCError } from '../src'
+import type { Payload, Service, Throws } from '../src'
+import {
+  AbortError,
+  type Client,
+  type ClientOptions,
+  ClosedError,
+  type Interceptor,
+  RPCError,
+  TimeoutError,
+} from '../src'
 import { createClient } from '../src/client'
 
 type TestService = Service<{
@@ -177,3 +185,730 @@ it('handles batching', async () => {
     new RPCError('test error', { code: 666, data: { foo: 'bar' } }),
   )
 })
+
+describe('timeouts and cancellation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('rejects calls that time out', async () => {
+    const result = mockClient
+      .withOptions({ timeout: 1000 })
+      .call('add', { x: 1, y: 2 })
+
+    jest.advanceTimersByTime(1000)
+    await expect(result).rejects.toStrictEqual(new TimeoutError(1000))
+
+    // Late replies are ignored
+    mockReceive({
+      jsonrpc: '2.0',
+      id: '1',
+      result: 3,
+    })
+  })
+
+  it('does not time out calls that reply in time', async () => {
+    const result = mockClient
+      .withOptions({ timeout: 1000 })
+      .call('add', { x: 1, y: 2 })
+
+    mockReceive({
+      jsonrpc: '2.0',
+      id: '1',
+      result: 3,
+    })
+    jest.advanceTimersByTime(1000)
+    await expect(result).resolves.toBe(3)
+  })
+
+  it('applies the client-wide default timeout', async () => {
+    const client = createClient<TestService>(
+      () => ({ send: mockSend, stop: mockStop }),
+      { timeout: 500 },
+    )
+    const result1 = client.call('add', { x: 1, y: 2 })
+    const result2 = client
+      .withOptions({ timeout: 2000 })
+      .call('add', { x: 1, y: 2 })
+
+    jest.advanceTimersByTime(500)
+    await expect(result1).rejects.toBeInstanceOf(TimeoutError)
+
+    jest.advanceTimersByTime(1500)
+    await expect(result2).rejects.toStrictEqual(new TimeoutError(2000))
+  })
+
+  it('rejects calls that are aborted', async () => {
+    const controller = new AbortController()
+    const result = mockClient
+      .withOptions({ signal: controller.signal })
+      .call('add', { x: 1, y: 2 })
+
+    controller.abort()
+    await expect(result).rejects.toBeInstanceOf(AbortError)
+    expect(mockSend).toHaveBeenLastCalledWith({
+      jsonrpc: '2.0',
+      method: '$/cancelRequest',
+      params: { id: '1' },
+    })
+  })
+
+  it('cancels calls on the server after timing out', async () => {
+    const result = mockClient
+      .withOptions({ timeout: 1000 })
+      .call('add', { x: 1, y: 2 })
+
+    jest.advanceTimersByTime(1000)
+    await expect(result).rejects.toBeInstanceOf(TimeoutError)
+    expect(mockSend).toHaveBeenLastCalledWith({
+      jsonrpc: '2.0',
+      method: '$/cancelRequest',
+      params: { id: '1' },
+    })
+  })
+
+  it('reports progress before resolving', async () => {
+    const onProgress = jest.fn()
+    const result = mockClient
+      .withOptions({ onProgress })
+      .call('add', { x: 1, y: 2 })
+
+    mockReceive([
+      { jsonrpc: '2.0', method: '$/progress', params: { id: '1', value: 0.5 } },
+      { jsonrpc: '2.0', method: '$/progress', params: { id: '2', value: 0 } },
+      { jsonrpc: '2.0', method: '$/progress', params: { id: '1', value: 1 } },
+      { jsonrpc: '2.0', id: '1', result: 3 },
+    ])
+    await expect(result).resolves.toBe(3)
+    expect(onProgress.mock.calls).toStrictEqual([[0.5], [1]])
+  })
+
+  it('does not send calls with an already aborted signal', async () => {
+    const signal = AbortSignal.abort()
+    const client = mockClient.withOptions({ signal })
+
+    await expect(client.call('add', { x: 1, y: 2 })).rejects.toBeInstanceOf(
+      AbortError,
+    )
+    await expect(client.notify('add', { x: 1, y: 2 })).rejects.toBeInstanceOf(
+      AbortError,
+    )
+    expect(mockSend).toHaveBeenCalledTimes(0)
+  })
+
+  it('applies options to batched calls', async () => {
+    const controller = new AbortController()
+    const batch = mockClient.createBatch()
+    const result1 = batch.withOptions({ timeout: 1000 }).call('add', {
+      x: 1,
+      y: 2,
+    })
+    const result2 = batch
+      .withOptions({ signal: controller.signal })
+      .call('add', { x: 3, y: 4 })
+    const result3 = batch.call('add', { x: 5, y: 6 })
+    await batch.flush()
+    expect(mockSend).toHaveBeenCalledTimes(1)
+
+    controller.abort()
+    await expect(result2).rejects.toBeInstanceOf(AbortError)
+
+    jest.advanceTimersByTime(1000)
+    await expect(result1).rejects.toBeInstanceOf(TimeoutError)
+
+    mockReceive([
+      { jsonrpc: '2.0', id: '1', result: 3 },
+      { jsonrpc: '2.0', id: '2', result: 7 },
+      { jsonrpc: '2.0', id: '3', result: 11 },
+    ])
+    await expect(result3).resolves.toBe(11)
+  })
+
+  it('rejects calls when sending fails', async () => {
+    mockSend.mockImplementationOnce(() => {
+      throw new Error('send failed')
+    })
+    await expect(mockClient.call('add', { x: 1, y: 2 })).rejects.toThrow(
+      'send failed',
+    )
+  })
+})
+
+describe('lifecycle', () => {
+  it('rejects pending calls when stopped', async () => {
+    const client = createClient<TestService>(() => ({
+      send: mockSend,
+      stop: mockStop,
+    }))
+    const result = client.call('add', { x: 1, y: 2 })
+    expect(client.state).toBe('open')
+
+    client.stop()
+    expect(client.state).toBe('closed')
+    expect(mockStop).toHaveBeenCalledTimes(1)
+    await expect(result).rejects.toBeInstanceOf(ClosedError)
+
+    // Stopping again does nothing
+    client.withOptions({}).stop()
+    expect(mockStop).toHaveBeenCalledTimes(1)
+    mockStop.mockClear()
+  })
+
+  it('fails fast after being stopped', async () => {
+    const client = createClient<TestService>(() => ({
+      send: mockSend,
+      stop: mockStop,
+    }))
+    const batch = client.createBatch()
+    client.stop()
+    mockStop.mockClear()
+
+    await expect(client.call('add', { x: 1, y: 2 })).rejects.toBeInstanceOf(
+      ClosedError,
+    )
+    await expect(client.notify('add', { x: 1, y: 2 })).rejects.toBeInstanceOf(
+      ClosedError,
+    )
+    await expect(batch.call('add', { x: 1, y: 2 })).rejects.toBeInstanceOf(
+      ClosedError,
+    )
+    await expect(batch.flush()).rejects.toBeInstanceOf(ClosedError)
+    expect(mockSend).toHaveBeenCalledTimes(0)
+  })
+
+  it('rejects pending calls when the transport closes', async () => {
+    let close!: (error?: unknown) => void
+    const client = createClient<TestService>((_receive, _close) => {
+      close = _close
+      return { send: mockSend, stop: mockStop }
+    })
+    const result = client.call('add', { x: 1, y: 2 })
+
+    const cause = new Error('connection lost')
+    close(cause)
+    expect(client.state).toBe('closed')
+    expect(mockStop).toHaveBeenCalledTimes(1)
+    await expect(result).rejects.toMatchObject({
+      name: 'ClosedError',
+      cause,
+    })
+    mockStop.mockClear()
+  })
+
+  it('rejects batched calls when flushing fails', async () => {
+    mockSend.mockRejectedValueOnce(new Error('send failed'))
+    const batch = mockClient.createBatch()
+    const result = batch.call('add', { x: 1, y: 2 })
+
+    await expect(batch.flush()).rejects.toThrow('send failed')
+    await expect(result).rejects.toThrow('send failed')
+  })
+})
+
+describe('interceptors', () => {
+  function createInterceptedClient(interceptors: Interceptor[]) {
+    return createClient<TestService>(
+      (receive) => {
+        mockReceive = receive
+        return { send: mockSend, stop: jest.fn() }
+      },
+      { interceptors },
+    )
+  }
+
+  it('runs interceptors around calls', async () => {
+    const events: unknown[] = []
+    const client = createInterceptedClient([
+      async (ctx, next) => {
+        events.push(['outer', ctx.method, ctx.id])
+        const result = await next()
+        events.push(['outer done', ctx.id, result])
+        return result
+      },
+      async (ctx, next) => {
+        ctx.params = { ...ctx.params, token: 'secret' }
+        return ((await next()) as number) * 10
+      },
+    ])
+
+    const result = client.call('add', { x: 1, y: 2 })
+    await Promise.resolve()
+    expect(mockSend).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      id: '1',
+      method: 'add',
+      params: { x: 1, y: 2, token: 'secret' },
+    })
+
+    mockReceive({ jsonrpc: '2.0', id: '1', result: 3 })
+    await expect(result).resolves.toBe(30)
+    expect(events).toStrictEqual([
+      ['outer', 'add', undefined],
+      ['outer done', '1', 30],
+    ])
+  })
+
+  it('lets interceptors map errors', async () => {
+    class AppError extends Error {}
+    const client = createInterceptedClient([
+      async (_ctx, next) => {
+        try {
+          return await next()
+        } catch (error) {
+          if (error instanceof RPCError && error.code === 404) {
+            throw new AppError('not found')
+          }
+          throw error
+        }
+      },
+    ])
+
+    const result = client.call('add', { x: 1, y: 2 })
+    await Promise.resolve()
+    mockReceive({
+      jsonrpc: '2.0',
+      id: '1',
+      error: { code: 404, message: 'missing' },
+    })
+    await expect(result).rejects.toBeInstanceOf(AppError)
+  })
+
+  it('lets interceptors retry calls', async () => {
+    const client = createInterceptedClient([
+      async (_ctx, next) => {
+        try {
+          return await next()
+        } catch {
+          return next()
+        }
+      },
+    ])
+
+    const batch = client.createBatch()
+    const result = batch.call('add', { x: 1, y: 2 })
+    await batch.flush()
+    expect(mockSend).toHaveBeenCalledTimes(1)
+    expect(mockSend).toHaveBeenLastCalledWith([
+      { jsonrpc: '2.0', id: '1', method: 'add', params: { x: 1, y: 2 } },
+    ])
+
+    mockReceive([
+      { jsonrpc: '2.0', id: '1', error: { code: 1, message: 'flaky' } },
+    ])
+    await new Promise(process.nextTick)
+
+    // The retry is sent on its own
+    expect(mockSend).toHaveBeenCalledTimes(2)
+    expect(mockSend).toHaveBeenLastCalledWith({
+      jsonrpc: '2.0',
+      id: '2',
+      method: 'add',
+      params: { x: 1, y: 2 },
+    })
+
+    mockReceive({ jsonrpc: '2.0', id: '2', result: 3 })
+    await expect(result).resolves.toBe(3)
+  })
+
+  it('waits for async interceptors before flushing batches', async () => {
+    const getToken = () =>
+      new Promise<string>((resolve) => setTimeout(resolve, 10, 'secret'))
+    const client = createInterceptedClient([
+      async (ctx, next) => {
+        ctx.params = { ...ctx.params, token: await getToken() }
+        return next()
+      },
+    ])
+
+    const batch = client.createBatch()
+    const result = batch.call('add', { x: 1, y: 2 })
+    const notified = batch.notify('add', { x: 3, y: 4 })
+    await batch.flush()
+    expect(mockSend).toHaveBeenCalledTimes(1)
+    expect(mockSend).toHaveBeenCalledWith([
+      {
+        jsonrpc: '2.0',
+        id: '1',
+        method: 'add',
+        params: { x: 1, y: 2, token: 'secret' },
+      },
+      {
+        jsonrpc: '2.0',
+        method: 'add',
+        params: { x: 3, y: 4, token: 'secret' },
+      },
+    ])
+
+    mockReceive([{ jsonrpc: '2.0', id: '1', result: 3 }])
+    await expect(result).resolves.toBe(3)
+    await expect(notified).resolves.toBeUndefined()
+  })
+
+  it('flushes batches whose interceptors skip sending', async () => {
+    const client = createInterceptedClient([
+      async (ctx, next) => (ctx.method === 'add' ? 42 : next()),
+    ])
+
+    const batch = client.createBatch()
+    const result = batch.call('add', { x: 1, y: 2 })
+    await batch.flush()
+    expect(mockSend).not.toHaveBeenCalled()
+    await expect(result).resolves.toBe(42)
+  })
+
+  it('runs interceptors around notifications', async () => {
+    const interceptor = jest.fn<
+      ReturnType<Interceptor>,
+      Parameters<Interceptor>
+    >((_ctx, next) => next())
+    const client = createInterceptedClient([interceptor])
+
+    await client.notify('add', { x: 1, y: 2 })
+    expect(interceptor).toHaveBeenCalledTimes(1)
+    expect(interceptor.mock.calls[0][0]).toMatchObject({
+      method: 'add',
+      notification: true,
+    })
+    expect(interceptor.mock.calls[0][0].id).toBeUndefined()
+    expect(mockSend).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      method: 'add',
+      params: { x: 1, y: 2 },
+    })
+  })
+})
+
+describe('schema validation', () => {
+  it('rejects invalid results', async () => {
+    const client = createClient<TestService>(
+      (receive) => {
+        mockReceive = receive
+        return { send: mockSend, stop: jest.fn() }
+      },
+      {
+        schema: {
+          add: {
+            result: {
+              '~standard': {
+                version: 1,
+                vendor: 'test',
+                validate: (value) =>
+                  typeof value === 'number'
+                    ? { value }
+                    : { issues: [{ message: 'Expected number' }] },
+              },
+            },
+          },
+        },
+      },
+    )
+
+    const result1 = client.call('add', { x: 1, y: 2 })
+    const result2 = client.call('add', { x: 1, y: 2 })
+    await Promise.resolve()
+    mockReceive([
+      { jsonrpc: '2.0', id: '1', result: 3 },
+      { jsonrpc: '2.0', id: '2', result: '3' },
+    ])
+
+    await expect(result1).resolves.toBe(3)
+    await expect(result2).rejects.toStrictEqual(
+      new RPCError('Invalid result', {
+        code: -32603,
+        data: { issues: [{ message: 'Expected number', path: undefined }] },
+      }),
+    )
+  })
+})
+
+describe('proxy', () => {
+  type ProxyService = Service<{
+    add(params: { x: number; y: number }): number
+    'users.get': (params: { id: number }) => string
+    'users.roles.list': () => string[]
+  }>
+
+  let client: Client<ProxyService>
+  beforeEach(() => {
+    client = createClient<ProxyService>((receive) => {
+      mockReceive = receive
+      return { send: mockSend, stop: jest.fn() }
+    })
+  })
+
+  it('calls methods', async () => {
+    const result = client.proxy.add({ x: 1, y: 2 })
+    expect(mockSend).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      id: '1',
+      method: 'add',
+      params: { x: 1, y: 2 },
+    })
+    mockReceive({ jsonrpc: '2.0', id: '1', result: 3 })
+    await expect(result).resolves.toBe(3)
+  })
+
+  it('calls methods with dotted names', async () => {
+    void client.proxy.users.get({ id: 1 })
+    void client.proxy.users.roles.list()
+    expect(mockSend.mock.calls).toStrictEqual([
+      [{ jsonrpc: '2.0', id: '1', method: 'users.get', params: { id: 1 } }],
+      [
+        {
+          jsonrpc: '2.0',
+          id: '2',
+          method: 'users.roles.list',
+          params: undefined,
+        },
+      ],
+    ])
+  })
+
+  it('sends notifications', async () => {
+    await client.proxy.users.get.notify({ id: 1 })
+    expect(mockSend).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      method: 'users.get',
+      params: { id: 1 },
+    })
+  })
+
+  it('adds to batches', async () => {
+    const batch = client.createBatch()
+    void batch.proxy.add({ x: 1, y: 2 })
+    void batch.withOptions({ timeout: 1000 }).proxy.add.notify({ x: 3, y: 4 })
+    await batch.flush()
+    expect(mockSend).toHaveBeenCalledWith([
+      { jsonrpc: '2.0', id: '1', method: 'add', params: { x: 1, y: 2 } },
+      { jsonrpc: '2.0', method: 'add', params: { x: 3, y: 4 } },
+    ])
+  })
+
+  it('applies options from withOptions', async () => {
+    const result = client.withOptions({ timeout: 0 }).proxy.add({ x: 1, y: 2 })
+    await expect(result).rejects.toBeInstanceOf(TimeoutError)
+  })
+
+  it('is not thenable', async () => {
+    await expect(Promise.resolve(client.proxy)).resolves.toBe(client.proxy)
+  })
+})
+
+describe('typed errors', () => {
+  class NotFoundError extends RPCError<{ id: string }> {
+    constructor(id: string) {
+      super('Not found', { code: 404, data: { id } })
+      this.name = 'NotFoundError'
+    }
+  }
+
+  type UserService = Service<{
+    getUser: Throws<(params: { id: string }) => string, NotFoundError>
+  }>
+
+  let client: Client<UserService>
+  beforeEach(() => {
+    client = createClient<UserService>(
+      (receive) => {
+        mockReceive = receive
+        return { send: mockSend, stop: jest.fn() }
+      },
+      { errors: { 404: NotFoundError } },
+    )
+  })
+
+  it('rejects with registered error classes', async () => {
+    const result = client.call('getUser', { id: 'a' })
+    mockReceive({
+      jsonrpc: '2.0',
+      id: '1',
+      error: { code: 404, message: 'Not found', data: { id: 'a' } },
+    })
+    const error = await result.catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error).toMatchObject({
+      name: 'NotFoundError',
+      message: 'Not found',
+      code: 404,
+      data: { id: 'a' },
+    })
+  })
+
+  it('resolves tryCall with values and errors', async () => {
+    const result1 = client.tryCall('getUser', { id: 'a' })
+    const result2 = client.tryCall('getUser', { id: 'b' })
+    mockReceive([
+      { jsonrpc: '2.0', id: '1', result: 'Alice' },
+      {
+        jsonrpc: '2.0',
+        id: '2',
+        error: { code: 404, message: 'Not found', data: { id: 'b' } },
+      },
+    ])
+    await expect(result1).resolves.toStrictEqual({ ok: true, value: 'Alice' })
+    const outcome = await result2
+    expect(outcome.ok).toBe(false)
+    expect(!outcome.ok && outcome.error).toBeInstanceOf(NotFoundError)
+  })
+
+  it('resolves tryCall with client errors', async () => {
+    await expect(
+      client.withOptions({ timeout: 0 }).tryCall('getUser', { id: 'a' }),
+    ).resolves.toStrictEqual({ ok: false, error: new TimeoutError(0) })
+  })
+
+  it('rejects tryCall when sending fails', async () => {
+    mockSend.mockImplementationOnce(() => {
+      throw new Error('Send failed')
+    })
+    await expect(client.tryCall('getUser', { id: 'a' })).rejects.toThrow(
+      'Send failed',
+    )
+  })
+
+  it('adds tryCall to batches', async () => {
+    const batch = client.createBatch()
+    const result = batch.tryCall('getUser', { id: 'a' })
+    await batch.flush()
+    mockReceive([{ jsonrpc: '2.0', id: '1', result: 'Alice' }])
+    await expect(result).resolves.toStrictEqual({ ok: true, value: 'Alice' })
+  })
+})
+
+describe('auto batching', () => {
+  function createAutoBatchClient(autoBatch: ClientOptions['autoBatch']) {
+    return createClient<TestService>(
+      (receive) => {
+        mockReceive = receive
+        return { send: mockSend, stop: jest.fn() }
+      },
+      { autoBatch },
+    )
+  }
+
+  // Calls left unanswered are rejected when the client stops
+  function ignoreResult(promise: Promise<unknown>) {
+    promise.catch(() => {})
+  }
+
+  function nextTick() {
+    return new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  it('sends calls made in the same tick as one batch', async () => {
+    const client = createAutoBatchClient(true)
+    const result1 = client.call('add', { x: 1, y: 2 })
+    const result2 = client.call('addArray', [3, 4])
+    void client.notify('add', { x: 5, y: 6 })
+    expect(mockSend).not.toHaveBeenCalled()
+
+    await nextTick()
+    expect(mockSend).toHaveBeenCalledTimes(1)
+    expect(mockSend).toHaveBeenCalledWith([
+      { jsonrpc: '2.0', id: '1', method: 'add', params: { x: 1, y: 2 } },
+      { jsonrpc: '2.0', id: '2', method: 'addArray', params: [3, 4] },
+      { jsonrpc: '2.0', method: 'add', params: { x: 5, y: 6 } },
+    ])
+
+    mockReceive([
+      { jsonrpc: '2.0', id: '2', result: 7 },
+      { jsonrpc: '2.0', id: '1', result: 3 },
+    ])
+    await expect(result1).resolves.toBe(3)
+    await expect(result2).resolves.toBe(7)
+    client.stop()
+  })
+
+  it('sends single calls on their own', async () => {
+    const client = createAutoBatchClient({})
+    ignoreResult(client.call('add', { x: 1, y: 2 }))
+    await nextTick()
+    expect(mockSend).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      id: '1',
+      method: 'add',
+      params: { x: 1, y: 2 },
+    })
+    client.stop()
+  })
+
+  it('sends full batches immediately', async () => {
+    const client = createAutoBatchClient({ maxSize: 2, window: 1000 })
+    ignoreResult(client.call('add', { x: 1, y: 2 }))
+    ignoreResult(client.call('add', { x: 3, y: 4 }))
+    ignoreResult(client.call('add', { x: 5, y: 6 }))
+    await Promise.resolve()
+    expect(mockSend).toHaveBeenCalledTimes(1)
+    expect(mockSend.mock.calls[0][0]).toHaveLength(2)
+    client.stop()
+  })
+
+  it('rejects calls when sending the batch fails', async () => {
+    const client = createAutoBatchClient(true)
+    mockSend.mockRejectedValueOnce(new Error('Send failed'))
+    const result1 = client.call('add', { x: 1, y: 2 })
+    const result2 = client.notify('add', { x: 1, y: 2 })
+    await expect(result1).rejects.toThrow('Send failed')
+    await expect(result2).rejects.toThrow('Send failed')
+    client.stop()
+  })
+
+  it('rejects queued calls when stopped', async () => {
+    const client = createAutoBatchClient(true)
+    const result1 = client.call('add', { x: 1, y: 2 })
+    const result2 = client.notify('add', { x: 1, y: 2 })
+    client.stop()
+    await expect(result1).rejects.toBeInstanceOf(ClosedError)
+    await expect(result2).rejects.toBeInstanceOf(ClosedError)
+    expect(mockSend).not.toHaveBeenCalled()
+  })
+
+  it('shares identical calls when deduplicating', async () => {
+    const client = createAutoBatchClient({ dedupe: true })
+    const result1 = client.call('add', { x: 1, y: 2 })
+    const result2 = client.call('add', { x: 1, y: 2 })
+    const result3 = client.call('add', { x: 2, y: 1 })
+    const result4 = client
+      .withOptions({ signal: new AbortController().signal })
+      .call('add', { x: 1, y: 2 })
+    await nextTick()
+    expect(mockSend.mock.calls[0][0]).toHaveLength(3)
+
+    mockReceive([
+      { jsonrpc: '2.0', id: '1', result: 3 },
+      { jsonrpc: '2.0', id: '2', result: 3 },
+      { jsonrpc: '2.0', id: '3', result: 3 },
+    ])
+    await expect(result1).resolves.toBe(3)
+    await expect(result2).resolves.toBe(3)
+    await expect(result3).resolves.toBe(3)
+    await expect(result4).resolves.toBe(3)
+
+    // Once replied to, identical calls are sent again
+    ignoreResult(client.call('add', { x: 1, y: 2 }))
+    await nextTick()
+    expect(mockSend).toHaveBeenCalledTimes(2)
+    client.stop()
+  })
+
+  it('only shares calls with plain JSON params and the same timeout', async () => {
+    const client = createAutoBatchClient({ dedupe: true })
+    const sets = [new Set([1, 2]), new Set([3])]
+    for (const x of sets) {
+      ignoreResult(client.call('add', { x, y: 0 } as never))
+    }
+    ignoreResult(client.call('add', { x: undefined, y: 0 } as never))
+    ignoreResult(client.call('add', { y: 0 } as never))
+    ignoreResult(client.call('add', { x: 1, y: 2 }))
+    ignoreResult(
+      client.withOptions({ timeout: 10 }).call('add', { x: 1, y: 2 }),
+    )
+    await nextTick()
+    expect(mockSend.mock.calls[0][0]).toHaveLength(6)
+    client.stop()
+  })
+})
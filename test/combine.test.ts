@@ -0,0 +1,178 @@
+import type { CombinedService, Handler, Service } from '../src'
+import { combineHandlers, handle } from '../src'
+
+type UserService = Service<{
+  get(params: { id: string }): string
+}>
+
+type BillingService = Service<{
+  charge(params: { amount: number }): number
+}>
+
+type RootService = Service<{
+  ping(): string
+}>
+
+const usersHandler: Handler<UserService> = {
+  get: ({ id }) => `user ${id}`,
+}
+
+const billingHandler: Handler<BillingService> = {
+  charge: ({ amount }) => amount * 2,
+}
+
+const rootHandler: Handler<RootService> = {
+  ping: () => 'pong',
+}
+
+describe('combineHandlers', () => {
+  it('prefixes method names', async () => {
+    const handler = combineHandlers<{
+      users: UserService
+      billing: BillingService
+    }>({ users: usersHandler, billing: billingHandler })
+
+    expect(Object.keys(handler)).toStrictEqual(['users.get', 'billing.charge'])
+    await expect(
+      handle(
+        [
+          { jsonrpc: '2.0', id: 1, method: 'users.get', params: { id: 'a' } },
+          {
+            jsonrpc: '2.0',
+            id: 2,
+            method: 'billing.charge',
+            params: { amount: 2 },
+          },
+          { jsonrpc: '2.0', id: 3, method: 'get', params: { id: 'a' } },
+        ],
+        handler,
+      ),
+    ).resolves.toMatchObject([
+      { id: 1, result: 'user a' },
+      { id: 2, result: 4 },
+      { id: 3, error: { code: -32601 } },
+    ])
+  })
+
+  it('merges handlers under an empty prefix and mounts nested prefixes', () => {
+    const handler = combineHandlers<{
+      '': RootService
+      'admin.users': UserService
+    }>({ '': rootHandler, 'admin.users': usersHandler })
+
+    expect(Object.keys(handler)).toStrictEqual(['ping', 'admin.users.get'])
+  })
+
+  it('combines combined handlers', async () => {
+    const handler = combineHandlers<{
+      api: CombinedService<{ users: UserService }>
+    }>({
+      api: combineHandlers<{ users: UserService }>({ users: usersHandler }),
+    })
+
+    await expect(
+      handle(
+        { jsonrpc: '2.0', id: 1, method: 'api.users.get', params: { id: 'a' } },
+        handler,
+      ),
+    ).resolves.toMatchObject({ result: 'user a' })
+  })
+
+  it('calls handler methods on their handler', async () => {
+    const counter = {
+      count: 0,
+      increment() {
+        this.count += 1
+        return this.count
+      },
+    }
+    const handler = combineHandlers<{
+      counter: Service<{ increment(): number }>
+    }>({ counter })
+
+    await expect(
+      handle({ jsonrpc: '2.0', id: 1, method: 'counter.increment' }, handler),
+    ).resolves.toMatchObject({ result: 1 })
+  })
+
+  it('includes the methods of class instances', async () => {
+    class UsersHandler implements Handler<UserService> {
+      prefix = 'user'
+
+      get({ id }: { id: string }) {
+        return `${this.prefix} ${id}`
+      }
+    }
+    const handler = combineHandlers<{ users: UserService }>({
+      users: new UsersHandler(),
+    })
+
+    expect(Object.keys(handler)).toStrictEqual(['users.get'])
+    await expect(
+      handle(
+        { jsonrpc: '2.0', id: 1, method: 'users.get', params: { id: 'a' } },
+        handler,
+      ),
+    ).resolves.toMatchObject({ result: 'user a' })
+  })
+
+  it('calls handler factories with the context', async () => {
+    const createUsersHandler = jest.fn(
+      (context: string): Handler<UserService> => ({
+        get: ({ id }) => `${context} ${id}`,
+      }),
+    )
+    const handler = combineHandlers<
+      { users: UserService; billing: BillingService },
+      string
+    >({ users: createUsersHandler, billing: billingHandler })
+
+    await expect(
+      handle(
+        { jsonrpc: '2.0', id: 1, method: 'users.get', params: { id: 'a' } },
+        handler,
+        'admin',
+      ),
+    ).resolves.toMatchObject({ result: 'admin a' })
+    await expect(
+      handle(
+        {
+          jsonrpc: '2.0',
+          id: 2,
+          method: 'billing.charge',
+          params: { amount: 1 },
+        },
+        handler,
+        'admin',
+      ),
+    ).resolves.toMatchObject({ result: 2 })
+    expect(createUsersHandler).toHaveBeenCalledWith('admin')
+  })
+
+  it('only calls the factory for the method called', async () => {
+    const createUsersHandler = jest.fn((): Handler<UserService> => usersHandler)
+    const createBillingHandler = jest.fn(
+      (): Handler<BillingService> => billingHandler,
+    )
+    const handler = combineHandlers<
+      { users: UserService; billing: BillingService },
+      string
+    >({ users: createUsersHandler, billing: createBillingHandler })
+
+    await expect(
+      handle(
+        { jsonrpc: '2.0', id: 1, method: 'users.get', params: { id: 'a' } },
+        handler,
+        'admin',
+      ),
+    ).resolves.toMatchObject({ result: 'user a' })
+    expect(createUsersHandler).toHaveBeenCalledTimes(1)
+    expect(createBillingHandler).not.toHaveBeenCalled()
+
+    // Listing the methods needs every handler
+    expect(Object.keys(handler('admin'))).toStrictEqual([
+      'users.get',
+      'billing.charge',
+    ])
+  })
+})
@@ -0,0 +1,142 @@
+import type { ConcurrencyLimiterOptions, Handler, Service } from '../src'
+import { createConcurrencyLimiter, createSession, handle } from '../src'
+
+type TestService = Service<{
+  work(params: { id: number }): number
+  report(params: { id: number }): number
+}>
+
+// Creates a handler whose calls finish when `finish()` is called
+function createTestHandler() {
+  const running: number[] = []
+  const pending = new Map<number, () => void>()
+  function run({ id }: { id: number }) {
+    running.push(id)
+    return new Promise<number>((resolve) => {
+      pending.set(id, () => {
+        running.splice(running.indexOf(id), 1)
+        resolve(id)
+      })
+    })
+  }
+  const handler: Handler<TestService> = { work: run, report: run }
+  function finish(id: number) {
+    pending.get(id)!()
+  }
+  return { handler, running, finish }
+}
+
+function createTestServer(opts: ConcurrencyLimiterOptions) {
+  const { handler, running, finish } = createTestHandler()
+  const session = createSession(() => {})
+  const middleware = [createConcurrencyLimiter(opts)]
+  function call(method: keyof TestService, id: number) {
+    return handle(
+      { jsonrpc: '2.0', id, method, params: { id } },
+      handler,
+      undefined,
+      {
+        middleware,
+        session,
+      },
+    )
+  }
+  return { call, running, finish, handler, session }
+}
+
+function nextTick() {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+describe('createConcurrencyLimiter', () => {
+  it('queues requests over the limit', async () => {
+    const { call, running, finish } = createTestServer({ maxConcurrent: 2 })
+
+    const replies = [call('work', 1), call('work', 2), call('work', 3)]
+    await nextTick()
+    expect(running).toStrictEqual([1, 2])
+
+    finish(1)
+    await nextTick()
+    expect(running).toStrictEqual([2, 3])
+
+    finish(2)
+    finish(3)
+    await expect(Promise.all(replies)).resolves.toMatchObject([
+      { id: 1, result: 1 },
+      { id: 2, result: 2 },
+      { id: 3, result: 3 },
+    ])
+  })
+
+  it('rejects requests when the queue is full', async () => {
+    const { call, running, finish } = createTestServer({
+      maxConcurrent: 1,
+      maxQueue: 1,
+    })
+
+    const first = call('work', 1)
+    const second = call('work', 2)
+    await expect(call('work', 3)).resolves.toStrictEqual({
+      jsonrpc: '2.0',
+      id: 3,
+      error: { code: -32004, message: 'Server busy', data: undefined },
+    })
+    expect(running).toStrictEqual([1])
+
+    finish(1)
+    await nextTick()
+    finish(2)
+    await expect(first).resolves.toMatchObject({ result: 1 })
+    await expect(second).resolves.toMatchObject({ result: 2 })
+  })
+
+  it('limits methods separately', async () => {
+    const { call, running, finish } = createTestServer({
+      maxConcurrent: 2,
+      methods: { report: { maxConcurrent: 1, maxQueue: 0 } },
+    })
+
+    const report = call('report', 1)
+    await expect(call('report', 2)).resolves.toMatchObject({
+      error: { code: -32004 },
+    })
+    // Other methods use the remaining overall slot
+    const work = call('work', 3)
+    await nextTick()
+    expect(running).toStrictEqual([1, 3])
+
+    finish(1)
+    finish(3)
+    await expect(report).resolves.toMatchObject({ result: 1 })
+    await expect(work).resolves.toMatchObject({ result: 3 })
+  })
+
+  it('removes cancelled requests from the queue', async () => {
+    const { call, running, finish, handler, session } = createTestServer({
+      maxConcurrent: 1,
+      maxQueue: 1,
+    })
+
+    const first = call('work', 1)
+    const second = call('work', 2)
+    await handle(
+      { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 2 } },
+      handler,
+      undefined,
+      { session },
+    )
+    await expect(second).resolves.toMatchObject({
+      error: { code: -32800, message: 'Request cancelled' },
+    })
+
+    // The cancelled request no longer takes up the queue
+    const third = call('work', 3)
+    finish(1)
+    await nextTick()
+    expect(running).toStrictEqual([3])
+    finish(3)
+    await expect(first).resolves.toMatchObject({ result: 1 })
+    await expect(third).resolves.toMatchObject({ result: 3 })
+  })
+})
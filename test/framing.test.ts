@@ -0,0 +1,239 @@
+import { PassThrough } from 'node:stream'
+
+import type { Framing, Service } from '../src'
+import {
+  contentLengthFraming,
+  createNodeStreamClient,
+  createNodeStreamServer,
+  lengthPrefixedFraming,
+  msgpackCodec,
+  ndjsonFraming,
+} from '../src'
+
+type EchoService = Service<{
+  echo(params: { text: string }): string
+}>
+
+const messages = ['{"text":"héllo 🦐"}', '{"text":"world"}']
+
+function encodeAll(framing: Framing) {
+  const bytes: number[] = []
+  for (const json of messages) {
+    const frame = framing.encode(json)
+    bytes.push(
+      ...(typeof frame === 'string' ? new TextEncoder().encode(frame) : frame),
+    )
+  }
+  return new Uint8Array(bytes)
+}
+
+// Decodes frames as text, for easier comparison
+function createTextDecoder(framing: Framing, maxMessageSize?: number) {
+  const decode = framing.createDecoder(maxMessageSize)
+  return (chunk: string | Uint8Array) =>
+    decode(chunk).map((bytes) => new TextDecoder().decode(bytes))
+}
+
+describe.each([
+  ['ndjsonFraming', ndjsonFraming],
+  ['contentLengthFraming', contentLengthFraming],
+  ['lengthPrefixedFraming', lengthPrefixedFraming],
+])('%s', (_, framing) => {
+  it('decodes whole frames', () => {
+    const decode = createTextDecoder(framing)
+    expect(decode(encodeAll(framing))).toStrictEqual(messages)
+  })
+
+  it('decodes frames split at every byte', () => {
+    const decode = createTextDecoder(framing)
+    const decoded: string[] = []
+    for (const byte of encodeAll(framing)) {
+      decoded.push(...decode(new Uint8Array([byte])))
+    }
+    expect(decoded).toStrictEqual(messages)
+  })
+
+  it('decodes frames split across uneven chunks', () => {
+    const decode = createTextDecoder(framing)
+    const bytes = encodeAll(framing)
+    const decoded: string[] = []
+    for (let start = 0, size = 1; start < bytes.length; start += size++) {
+      decoded.push(...decode(bytes.slice(start, start + size)))
+    }
+    expect(decoded).toStrictEqual(messages)
+  })
+
+  it('throws on messages over the maximum size', () => {
+    const size = new TextEncoder().encode(messages[0]).length
+    expect(createTextDecoder(framing, size)(encodeAll(framing))).toStrictEqual(
+      messages,
+    )
+    expect(() =>
+      createTextDecoder(framing, size - 1)(encodeAll(framing)),
+    ).toThrow(`Message of ${size} bytes exceeds maxMessageSize of ${size - 1}`)
+  })
+
+  it('works over Node streams', async () => {
+    const clientToServer = new PassThrough()
+    const serverToClient = new PassThrough()
+    const server = createNodeStreamServer<EchoService>(
+      clientToServer,
+      serverToClient,
+      { echo: ({ text }) => text },
+      { framing },
+    )
+    const client = createNodeStreamClient<EchoService>(
+      serverToClient,
+      clientToServer,
+      { framing },
+    )
+
+    await expect(client.call('echo', { text: 'héllo 🦐' })).resolves.toBe(
+      'héllo 🦐',
+    )
+
+    client.stop()
+    server.stop()
+  })
+})
+
+it('carries binary codecs', async () => {
+  const clientToServer = new PassThrough()
+  const serverToClient = new PassThrough()
+  const opts = { framing: lengthPrefixedFraming, codec: msgpackCodec }
+  const server = createNodeStreamServer<EchoService>(
+    clientToServer,
+    serverToClient,
+    { echo: ({ text }) => text },
+    opts,
+  )
+  const client = createNodeStreamClient<EchoService>(
+    serverToClient,
+    clientToServer,
+    opts,
+  )
+
+  await expect(client.call('echo', { text: 'héllo 🦐' })).resolves.toBe(
+    'héllo 🦐',
+  )
+
+  client.stop()
+  server.stop()
+})
+
+describe('ndjsonFraming', () => {
+  it('skips blank lines and carriage returns', () => {
+    const decode = createTextDecoder(ndjsonFraming)
+    expect(decode('\n{"a":1}\r\n\r\n{"b":2}\n')).toStrictEqual([
+      '{"a":1}',
+      '{"b":2}',
+    ])
+  })
+})
+
+describe('lengthPrefixedFraming', () => {
+  it('throws on bogus lengths before buffering the message', () => {
+    const decode = createTextDecoder(lengthPrefixedFraming, 1024)
+    expect(() => decode(new Uint8Array([0xff, 0xff, 0xff, 0xff]))).toThrow(
+      'exceeds maxMessageSize',
+    )
+  })
+})
+
+describe('contentLengthFraming', () => {
+  it('ignores other headers', () => {
+    const decode = createTextDecoder(contentLengthFraming)
+    expect(
+      decode(
+        'Content-Type: application/vscode-jsonrpc; charset=utf-8\r\ncontent-length: 7\r\n\r\n{"a":1}',
+      ),
+    ).toStrictEqual(['{"a":1}'])
+  })
+
+  it('skips malformed headers', () => {
+    const decode = createTextDecoder(contentLengthFraming)
+    expect(
+      decode('Content-Length: abc\r\n\r\nContent-Length: 7\r\n\r\n{"a":1}'),
+    ).toStrictEqual(['{"a":1}'])
+  })
+
+  it('recovers from garbage without a header end', () => {
+    const decode = createTextDecoder(contentLengthFraming)
+    expect(decode('x'.repeat(10000))).toStrictEqual([])
+    expect(decode('\r\nContent-Length: 7\r\n\r\n{"a":1}')).toStrictEqual([
+      '{"a":1}',
+    ])
+  })
+})
+
+it('ignores malformed messages received by clients', async () => {
+  const input = new PassThrough({ encoding: 'utf8' })
+  const output = new PassThrough({ encoding: 'utf8' })
+  const client = createNodeStreamClient<EchoService>(input, output)
+
+  output.once('data', (chunk: string) => {
+    const { id } = JSON.parse(chunk) as { id: string }
+    input.write('not json\n')
+    input.write(JSON.stringify({ jsonrpc: '2.0', id, result: 'hi' }) + '\n')
+  })
+  const result = client.call('echo', { text: 'hi' })
+
+  await expect(result).resolves.toBe('hi')
+  client.stop()
+})
+
+it('closes clients that receive oversized messages', async () => {
+  const input = new PassThrough({ encoding: 'utf8' })
+  const output = new PassThrough({ encoding: 'utf8' })
+  const client = createNodeStreamClient<EchoService>(input, output, {
+    maxMessageSize: 100,
+  })
+
+  const result = client.call('echo', { text: 'hi' })
+  input.write('x'.repeat(101))
+
+  await expect(result).rejects.toMatchObject({ code: -32002 })
+  expect(client.state).toBe('closed')
+})
+
+it('ends the connection when servers receive oversized messages', async () => {
+  const clientToServer = new PassThrough({ encoding: 'utf8' })
+  const serverToClient = new PassThrough({ encoding: 'utf8' })
+  const echo = jest.fn(({ text }: { text: string }) => text)
+  createNodeStreamServer<EchoService>(
+    clientToServer,
+    serverToClient,
+    { echo },
+    { maxMessageSize: 100 },
+  )
+  const client = createNodeStreamClient<EchoService>(
+    serverToClient,
+    clientToServer,
+  )
+
+  await expect(
+    client.call('echo', { text: 'x'.repeat(101) }),
+  ).rejects.toMatchObject({ code: -32002 })
+  expect(client.state).toBe('closed')
+  expect(echo).not.toHaveBeenCalled()
+})
+
+it('replies to malformed messages received by servers', async () => {
+  const input = new PassThrough({ encoding: 'utf8' })
+  const output = new PassThrough({ encoding: 'utf8' })
+  const server = createNodeStreamServer<EchoService>(input, output, {
+    echo: ({ text }) => text,
+  })
+
+  input.write('not json\n')
+  const [reply] = (await new Promise((resolve) =>
+    output.once('data', (chunk: string) => resolve([chunk])),
+  )) as string[]
+  expect(JSON.parse(reply)).toStrictEqual({
+    jsonrpc: '2.0',
+    id: null,
+    error: { code: -32700, message: 'Parse error' },
+  })
+
+  server.stop()
+})
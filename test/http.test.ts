@@ -0,0 +1,208 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import type { Handler, Service } from '../src'
+import {
+  createFetchClient,
+  createFetchHandler,
+  createNodeHttpListener,
+  msgpackCodec,
+} from '../src'
+
+type TestService = Service<{
+  add(params: { x: number; y: number }): number
+  whoami(): string | undefined
+  count(params: { to: number }): AsyncIterable<number>
+}>
+
+const handler: Handler<TestService> = {
+  add: ({ x, y }) => x + y,
+  whoami: () => undefined,
+  async *count({ to }) {
+    for (let i = 1; i <= to; i++) {
+      yield i
+    }
+  },
+}
+
+function post(body: string, contentType = 'application/json') {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body,
+  }
+}
+
+describe('createNodeHttpListener', () => {
+  let server: Server
+  let url: string
+
+  beforeAll(async () => {
+    server = createServer(
+      createNodeHttpListener<TestService, string | undefined>(
+        (user) => ({ ...handler, whoami: () => user }),
+        {
+          maxBodySize: 1000,
+          context: (request: IncomingMessage) =>
+            request.headers['x-user'] as string,
+        },
+      ),
+    )
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    url = `http://localhost:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('handles calls from createFetchClient', async () => {
+    const client = createFetchClient<TestService>(url, {
+      headers: { 'X-User': 'alice' },
+    })
+
+    await expect(client.call('add', { x: 1, y: 2 })).resolves.toBe(3)
+    await expect(client.call('whoami')).resolves.toBe('alice')
+
+    const batch = client.createBatch()
+    const result1 = batch.call('add', { x: 3, y: 4 })
+    const result2 = batch.call('add', { x: 5, y: 6 })
+    await batch.flush()
+    await expect(result1).resolves.toBe(7)
+    await expect(result2).resolves.toBe(11)
+
+    client.stop()
+  })
+
+  it('streams the values of array replies', async () => {
+    const client = createFetchClient<TestService>(url)
+
+    const values: number[] = []
+    for await (const value of client.stream('count', { to: 3 })) {
+      values.push(value)
+    }
+    expect(values).toStrictEqual([1, 2, 3])
+
+    client.stop()
+  })
+
+  it('replies 204 to notifications', async () => {
+    const res = await fetch(
+      url,
+      post('{"jsonrpc":"2.0","method":"add","params":{"x":1,"y":2}}'),
+    )
+    expect(res.status).toBe(204)
+    expect(await res.text()).toBe('')
+  })
+
+  it('replies with parse errors', async () => {
+    const res = await fetch(url, post('{'))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32700, message: 'Parse error' },
+    })
+  })
+
+  it('rejects other methods', async () => {
+    const res = await fetch(url)
+    expect(res.status).toBe(405)
+    expect(res.headers.get('Allow')).toBe('POST')
+  })
+
+  it('rejects other content types', async () => {
+    const res = await fetch(url, post('{}', 'text/plain'))
+    expect(res.status).toBe(415)
+  })
+
+  it('rejects large bodies', async () => {
+    const res = await fetch(
+      url,
+      post(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'add',
+          params: { x: 1, y: 2, padding: 'x'.repeat(1000) },
+        }),
+      ),
+    )
+    expect(res.status).toBe(413)
+  })
+})
+
+describe('createFetchHandler', () => {
+  const fetchHandler = createFetchHandler<TestService>(handler, {
+    maxBodySize: 1000,
+  })
+
+  it('handles calls', async () => {
+    const res = await fetchHandler(
+      new Request(
+        'http://localhost/',
+        post(
+          '{"jsonrpc":"2.0","id":1,"method":"add","params":{"x":1,"y":2}}',
+          'application/json; charset=utf-8',
+        ),
+      ),
+    )
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('application/json')
+    expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 1, result: 3 })
+  })
+
+  it('replies 204 to notifications', async () => {
+    const res = await fetchHandler(
+      new Request(
+        'http://localhost/',
+        post('[{"jsonrpc":"2.0","method":"add","params":{"x":1,"y":2}}]'),
+      ),
+    )
+    expect(res.status).toBe(204)
+  })
+
+  it('rejects invalid requests', async () => {
+    const get = await fetchHandler(new Request('http://localhost/'))
+    expect(get.status).toBe(405)
+
+    const text = await fetchHandler(
+      new Request('http://localhost/', post('{}', 'text/plain')),
+    )
+    expect(text.status).toBe(415)
+
+    const large = await fetchHandler(
+      new Request('http://localhost/', post(' '.repeat(1001))),
+    )
+    expect(large.status).toBe(413)
+  })
+})
+
+describe('msgpackCodec', () => {
+  let server: Server
+  let url: string
+
+  beforeAll(async () => {
+    server = createServer(
+      createNodeHttpListener<TestService>(handler, { codec: msgpackCodec }),
+    )
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    url = `http://localhost:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('handles calls from createFetchClient', async () => {
+    const client = createFetchClient<TestService>(url, undefined, {
+      codec: msgpackCodec,
+    })
+    await expect(client.call('add', { x: 1, y: 2 })).resolves.toBe(3)
+    client.stop()
+  })
+
+  it('rejects JSON', async () => {
+    const res = await fetch(url, post('{}'))
+    expect(res.status).toBe(415)
+  })
+})
@@ -0,0 +1,77 @@
+import { msgpackCodec } from '../src'
+
+function encode(value: unknown) {
+  return msgpackCodec.encode(value as never) as Uint8Array
+}
+
+function decode(bytes: number[]) {
+  return msgpackCodec.decode(new Uint8Array(bytes)) as unknown
+}
+
+it('encodes to the smallest formats', () => {
+  expect([...encode(null)]).toStrictEqual([0xc0])
+  expect([...encode(true)]).toStrictEqual([0xc3])
+  expect([...encode(1)]).toStrictEqual([0x01])
+  expect([...encode(-1)]).toStrictEqual([0xff])
+  expect([...encode(200)]).toStrictEqual([0xcc, 200])
+  expect([...encode(-200)]).toStrictEqual([0xd1, 0xff, 0x38])
+  expect([...encode(0.5)]).toStrictEqual([0xcb, 0x3f, 0xe0, 0, 0, 0, 0, 0, 0])
+  expect([...encode('hi')]).toStrictEqual([0xa2, 0x68, 0x69])
+  expect([...encode([1, 2])]).toStrictEqual([0x92, 0x01, 0x02])
+  expect([...encode({ a: 1 })]).toStrictEqual([0x81, 0xa1, 0x61, 0x01])
+  expect([...encode(new Uint8Array([1, 2]))]).toStrictEqual([
+    0xc4, 0x02, 0x01, 0x02,
+  ])
+})
+
+it('round trips values', () => {
+  const value = {
+    jsonrpc: '2.0',
+    id: 1,
+    result: {
+      numbers: [0, 127, 128, 65535, 65536, 2 ** 40, -32, -33, -(2 ** 40), 1.5],
+      text: 'héllo 🦐'.repeat(20),
+      long: 'x'.repeat(70000),
+      bytes: new Uint8Array([0, 255]),
+      date: new Date('2024-01-02T03:04:05.678Z'),
+      big: 2n ** 60n,
+      nested: { list: Array.from({ length: 20 }, (_, index) => index) },
+      empty: null,
+    },
+  }
+
+  expect(msgpackCodec.decode(encode(value))).toStrictEqual(value)
+})
+
+it('skips undefined properties like JSON', () => {
+  expect(msgpackCodec.decode(encode({ a: 1, b: undefined }))).toStrictEqual({
+    a: 1,
+  })
+})
+
+it('decodes timestamps', () => {
+  // Timestamp 32 and 64
+  expect(decode([0xd6, 0xff, 0, 0, 0, 1])).toStrictEqual(new Date(1000))
+  expect(
+    decode([0xd7, 0xff, 0x07, 0x27, 0x0e, 0x00, 0, 0, 0, 1]),
+  ).toStrictEqual(new Date(1030))
+})
+
+it('throws on malformed data', () => {
+  expect(() => decode([0xc1])).toThrow()
+  expect(() => decode([0xa5, 0x68])).toThrow()
+  expect(() => decode([0x01, 0x02])).toThrow()
+  expect(() => decode([0xd4, 0x01, 0x00])).toThrow()
+  expect(() => msgpackCodec.decode('{}')).toThrow()
+})
+
+it('does not assign prototypes from keys', () => {
+  const object = decode([
+    0x81,
+    0xa9,
+    ...new TextEncoder().encode('__proto__'),
+    0x80,
+  ]) as object
+  expect(Object.getPrototypeOf(object)).toBe(Object.prototype)
+  expect(Object.keys(object)).toStrictEqual(['__proto__'])
+})
@@ -0,0 +1,266 @@
+import { PassThrough } from 'node:stream'
+
+import type { Payload, Service, Transport } from '../src'
+import { AbortError, createNodeStreamPeer, createPeer } from '../src'
+
+type AddService = Service<{
+  add(params: { x: number; y: number }): number
+}>
+
+type MultiplyService = Service<{
+  multiply(params: { x: number; y: number }): number
+}>
+
+function createTransportPair(): [Transport, Transport] {
+  const receivers: ((payload: Payload) => void)[] = []
+  function createTransport(index: number): Transport {
+    return (receive) => {
+      receivers[index] = receive
+      return {
+        send(payload) {
+          // Copy to simulate serialization and deliver asynchronously
+          const copy = structuredClone(payload)
+          queueMicrotask(() => {
+            receivers[1 - index]?.(copy)
+          })
+        },
+        stop() {
+          // Nothing
+        },
+      }
+    }
+  }
+  return [createTransport(0), createTransport(1)]
+}
+
+it('calls in both directions', async () => {
+  const [transportA, transportB] = createTransportPair()
+  const peerA = createPeer<AddService, MultiplyService>(transportA, {
+    add: ({ x, y }) => x + y,
+  })
+  const peerB = createPeer<MultiplyService, AddService>(transportB, {
+    multiply: ({ x, y }) => x * y,
+  })
+
+  await expect(peerA.call('multiply', { x: 2, y: 3 })).resolves.toBe(6)
+  await expect(peerB.call('add', { x: 2, y: 3 })).resolves.toBe(5)
+
+  peerA.stop()
+  peerB.stop()
+})
+
+it('routes mixed batches', async () => {
+  const [transportA, transportB] = createTransportPair()
+  const multiply = jest.fn(({ x, y }: { x: number; y: number }) => x * y)
+  const peerA = createPeer<AddService, MultiplyService>(transportA, {
+    add: ({ x, y }) => x + y,
+  })
+  const peerB = createPeer<MultiplyService, AddService>(transportB, {
+    multiply,
+  })
+
+  const batch = peerA.createBatch()
+  const result1 = batch.call('multiply', { x: 2, y: 3 })
+  const result2 = batch.call('multiply', { x: 4, y: 5 })
+  await batch.notify('multiply', { x: 0, y: 0 })
+  await batch.flush()
+
+  await expect(result1).resolves.toBe(6)
+  await expect(result2).resolves.toBe(20)
+  expect(multiply).toHaveBeenCalledTimes(3)
+
+  peerA.stop()
+  peerB.stop()
+})
+
+it('passes transport context to handler factories', async () => {
+  const [transportA, transportB] = createTransportPair()
+  const peerA = createPeer<AddService, MultiplyService>(transportA, {
+    add: ({ x, y }) => x + y,
+  })
+  const peerB = createPeer<MultiplyService, AddService, string | undefined>(
+    (receive, close) =>
+      transportB((payload) => receive(payload, 'context'), close),
+    (context) => ({
+      multiply: ({ x, y }) => (context === 'context' ? x * y : 0),
+    }),
+  )
+
+  await expect(peerA.call('multiply', { x: 2, y: 3 })).resolves.toBe(6)
+
+  peerA.stop()
+  peerB.stop()
+})
+
+it('calls in both directions over Node streams', async () => {
+  const aToB = new PassThrough({ encoding: 'utf8' })
+  const bToA = new PassThrough({ encoding: 'utf8' })
+  const peerA = createNodeStreamPeer<AddService, MultiplyService>(bToA, aToB, {
+    add: ({ x, y }) => x + y,
+  })
+  const peerB = createNodeStreamPeer<MultiplyService, AddService>(aToB, bToA, {
+    multiply: ({ x, y }) => x * y,
+  })
+
+  const [product, sum] = await Promise.all([
+    peerA.call('multiply', { x: 2, y: 3 }),
+    peerB.call('add', { x: 2, y: 3 }),
+  ])
+  expect(product).toBe(6)
+  expect(sum).toBe(5)
+
+  peerA.stop()
+  peerB.stop()
+})
+
+describe('streaming', () => {
+  type CountService = Service<{
+    count(params: { to: number }): AsyncIterable<number>
+  }>
+
+  it('streams values with backpressure', async () => {
+    const [transportA, transportB] = createTransportPair()
+    let produced = 0
+    const peerA = createPeer<CountService, Service>(transportA, {
+      async *count({ to }) {
+        for (let n = 1; n <= to; n++) {
+          produced = n
+          yield n
+        }
+      },
+    })
+    const peerB = createPeer<Service, CountService>(
+      transportB,
+      {},
+      { streamWindow: 4 },
+    )
+
+    const values: number[] = []
+    for await (const value of peerB.stream('count', { to: 20 })) {
+      values.push(value)
+      if (value === 1) {
+        // Let the server run ahead as far as it can
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        expect(produced).toBeLessThanOrEqual(5)
+      }
+    }
+    expect(values).toStrictEqual(
+      Array.from({ length: 20 }, (_, index) => index + 1),
+    )
+
+    peerA.stop()
+    peerB.stop()
+  })
+
+  it('cancels the request when iteration stops early', async () => {
+    const [transportA, transportB] = createTransportPair()
+    const onReturn = jest.fn()
+    const peerA = createPeer<CountService, Service>(transportA, {
+      async *count({ to }) {
+        try {
+          for (let n = 1; n <= to; n++) {
+            yield n
+          }
+        } finally {
+          onReturn()
+        }
+      },
+    })
+    const peerB = createPeer<Service, CountService>(transportB, {})
+
+    const values: number[] = []
+    for await (const value of peerB.stream('count', { to: 1000 })) {
+      values.push(value)
+      if (value === 3) {
+        break
+      }
+    }
+    expect(values).toStrictEqual([1, 2, 3])
+
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(onReturn).toHaveBeenCalledTimes(1)
+
+    peerA.stop()
+    peerB.stop()
+  })
+
+  it('times out waiting for each value rather than the whole stream', async () => {
+    const [transportA, transportB] = createTransportPair()
+    const peerA = createPeer<CountService, Service>(transportA, {
+      async *count({ to }) {
+        for (let n = 1; n <= to; n++) {
+          await new Promise((resolve) => setTimeout(resolve, 30))
+          yield n
+        }
+      },
+    })
+    const peerB = createPeer<Service, CountService>(
+      transportB,
+      {},
+      { timeout: 50 },
+    )
+
+    const values: number[] = []
+    for await (const value of peerB.stream('count', { to: 4 })) {
+      values.push(value)
+      if (value === 1) {
+        // A slow consumer doesn't count against the timeout either
+        await new Promise((resolve) => setTimeout(resolve, 80))
+      }
+    }
+    expect(values).toStrictEqual([1, 2, 3, 4])
+
+    peerA.stop()
+    peerB.stop()
+  })
+
+  it('collects streamed values with call()', async () => {
+    const [transportA, transportB] = createTransportPair()
+    const peerA = createPeer<CountService, Service>(transportA, {
+      async *count({ to }) {
+        for (let n = 1; n <= to; n++) {
+          yield n
+        }
+      },
+    })
+    const peerB = createPeer<Service, CountService>(transportB, {})
+
+    await expect(peerB.call('count', { to: 3 })).resolves.toStrictEqual([
+      1, 2, 3,
+    ])
+
+    peerA.stop()
+    peerB.stop()
+  })
+})
+
+it('cancels requests on the remote peer', async () => {
+  type SlowService = Service<{
+    wait(): void
+  }>
+
+  const [transportA, transportB] = createTransportPair()
+  const onAbort = jest.fn()
+  const peerA = createPeer<SlowService, Service>(transportA, {
+    wait: (params, { signal }) =>
+      new Promise((_, reject) => {
+        signal.addEventListener('abort', () => {
+          onAbort()
+          reject(signal.reason)
+        })
+      }),
+  })
+  const peerB = createPeer<Service, SlowService>(transportB, {})
+
+  const controller = new AbortController()
+  const result = peerB.withOptions({ signal: controller.signal }).call('wait')
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  controller.abort()
+
+  await expect(result).rejects.toBeInstanceOf(AbortError)
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  expect(onAbort).toHaveBeenCalledTimes(1)
+
+  peerA.stop()
+  peerB.stop()
+})
@@ -0,0 +1,140 @@
+import type { RequestMessage, Service } from '../src'
+import { createPostMessageClient, createPostMessageServer } from '../src'
+
+type AddService = Service<{
+  add(params: { x: number; y: number }): number
+}>
+
+type FakeWindow = Window & { sent: [unknown, WindowPostMessageOptions][] }
+
+function createFakeWindow() {
+  const fake = Object.assign(new EventTarget(), {
+    sent: [] as [unknown, WindowPostMessageOptions][],
+    postMessage(data: unknown, opts: WindowPostMessageOptions) {
+      fake.sent.push([data, opts])
+    },
+  })
+  return fake as unknown as FakeWindow
+}
+
+function dispatch(
+  target: EventTarget,
+  data: unknown,
+  origin: string,
+  source: unknown,
+) {
+  target.dispatchEvent(
+    Object.assign(new Event('message'), { data, origin, source }),
+  )
+}
+
+describe('createPostMessageClient', () => {
+  const globals = globalThis as { self?: unknown }
+  let ownWindow: FakeWindow
+  let parent: FakeWindow
+
+  beforeEach(() => {
+    ownWindow = createFakeWindow()
+    parent = createFakeWindow()
+    globals.self = ownWindow
+  })
+
+  afterEach(() => {
+    delete globals.self
+  })
+
+  it('only accepts replies from the target window and origin', async () => {
+    const onRejectedMessage = jest.fn()
+    const client = createPostMessageClient<AddService>(parent, {
+      targetOrigin: 'https://parent.example',
+      onRejectedMessage,
+    })
+
+    const promise = client.call('add', { x: 1, y: 2 })
+    await Promise.resolve()
+    const [request, opts] = parent.sent[0] as [RequestMessage, unknown]
+    expect(opts).toStrictEqual({
+      targetOrigin: 'https://parent.example',
+      transfer: [],
+    })
+
+    const reply = { jsonrpc: '2.0', id: request.id, result: 3 }
+    const other = createFakeWindow()
+    dispatch(
+      ownWindow,
+      { ...reply, result: 666 },
+      'https://parent.example',
+      other,
+    )
+    dispatch(
+      ownWindow,
+      { ...reply, result: 666 },
+      'https://evil.example',
+      parent,
+    )
+    expect(onRejectedMessage.mock.calls).toStrictEqual([
+      [expect.any(Event), 'source'],
+      [expect.any(Event), 'origin'],
+    ])
+
+    dispatch(ownWindow, reply, 'https://parent.example', parent)
+    await expect(promise).resolves.toBe(3)
+    client.stop()
+  })
+})
+
+describe('createPostMessageServer', () => {
+  it('only handles calls from allowed origins', async () => {
+    const listening = createFakeWindow()
+    const caller = createFakeWindow()
+    const onRejectedMessage = jest.fn()
+    const server = createPostMessageServer<AddService>(
+      listening,
+      { add: ({ x, y }) => x + y },
+      {
+        allowedOrigins: (origin) => origin.endsWith('.trusted.example'),
+        onRejectedMessage,
+      },
+    )
+
+    const request = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'add',
+      params: { x: 1, y: 2 },
+    }
+    dispatch(listening, request, 'https://evil.example', caller)
+    dispatch(listening, request, 'https://app.trusted.example', caller)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(onRejectedMessage).toHaveBeenCalledWith(expect.any(Event), 'origin')
+    expect(caller.sent).toStrictEqual([
+      [
+        { jsonrpc: '2.0', id: 1, result: 3 },
+        { targetOrigin: 'https://app.trusted.example', transfer: [] },
+      ],
+    ])
+    server.stop()
+  })
+
+  it('replies to the given target origin', async () => {
+    const listening = createFakeWindow()
+    const caller = createFakeWindow()
+    const server = createPostMessageServer<AddService>(
+      listening,
+      { add: ({ x, y }) => x + y },
+      { targetOrigin: 'https://app.example' },
+    )
+
+    dispatch(
+      listening,
+      { jsonrpc: '2.0', id: 1, method: 'add', params: { x: 1, y: 2 } },
+      'https://app.example',
+      caller,
+    )
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(caller.sent[0][1].targetOrigin).toBe('https://app.example')
+    server.stop()
+  })
+})
@@ -0,0 +1,156 @@
+import type {
+  Handler,
+  Message,
+  RateLimit,
+  RateLimiterOptions,
+  RateLimitStore,
+  Service,
+} from '../src'
+import { createMemoryRateLimitStore, createRateLimiter, handle } from '../src'
+
+type TestService = Service<{
+  ping(): string
+  sendEmail(): string
+}>
+
+const handler: Handler<TestService> = {
+  ping: () => 'pong',
+  sendEmail: () => 'sent',
+}
+
+function createTestServer(opts: RateLimiterOptions<string>) {
+  const middleware = [createRateLimiter(opts)]
+  let id = 0
+  return (method: keyof TestService, client = 'alice') =>
+    handle({ jsonrpc: '2.0', id: ++id, method }, handler, client, {
+      middleware,
+    })
+}
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: 0 })
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+describe('createRateLimiter', () => {
+  it('rejects calls over the limit with a retry hint', async () => {
+    const call = createTestServer({ limit: 2, interval: 1000 })
+
+    await expect(call('ping')).resolves.toMatchObject({ result: 'pong' })
+    await expect(call('ping')).resolves.toMatchObject({ result: 'pong' })
+    await expect(call('ping')).resolves.toStrictEqual({
+      jsonrpc: '2.0',
+      id: 3,
+      error: {
+        code: -32005,
+        message: 'Too many requests',
+        data: { retryAfter: 500 },
+      },
+    })
+  })
+
+  it('refills over time', async () => {
+    const call = createTestServer({ limit: 2, interval: 1000 })
+    await call('ping')
+    await call('ping')
+
+    jest.setSystemTime(400)
+    await expect(call('ping')).resolves.toMatchObject({
+      error: { data: { retryAfter: 100 } },
+    })
+
+    jest.setSystemTime(500)
+    await expect(call('ping')).resolves.toMatchObject({ result: 'pong' })
+    await expect(call('ping')).resolves.toMatchObject({
+      error: { code: -32005 },
+    })
+  })
+
+  it('counts keys separately', async () => {
+    const call = createTestServer({
+      limit: 1,
+      interval: 1000,
+      key: (ctx) => ctx.context,
+    })
+
+    await expect(call('ping', 'alice')).resolves.toMatchObject({
+      result: 'pong',
+    })
+    await expect(call('ping', 'bob')).resolves.toMatchObject({
+      result: 'pong',
+    })
+    await expect(call('ping', 'alice')).resolves.toMatchObject({
+      error: { code: -32005 },
+    })
+  })
+
+  it('counts methods with their own limits separately', async () => {
+    const call = createTestServer({
+      limit: 1,
+      interval: 1000,
+      methods: { sendEmail: { limit: 2, interval: 60_000 } },
+    })
+
+    await expect(call('sendEmail')).resolves.toMatchObject({ result: 'sent' })
+    await expect(call('ping')).resolves.toMatchObject({ result: 'pong' })
+    await expect(call('sendEmail')).resolves.toMatchObject({ result: 'sent' })
+    await expect(call('sendEmail')).resolves.toMatchObject({
+      error: { data: { retryAfter: 30_000 } },
+    })
+  })
+
+  it('limits concurrent calls in a batch', async () => {
+    const middleware = [createRateLimiter({ limit: 2, interval: 1000 })]
+    const reply = (await handle(
+      Array.from({ length: 50 }, (_, id) => ({
+        jsonrpc: '2.0' as const,
+        id,
+        method: 'ping',
+      })),
+      handler,
+      undefined,
+      { middleware },
+    )) as Message[]
+
+    expect(reply.filter((message) => 'result' in message)).toHaveLength(2)
+    expect(reply.filter((message) => 'error' in message)).toHaveLength(48)
+  })
+
+  it('keeps state in the given store', async () => {
+    const memory = createMemoryRateLimitStore()
+    const consume = jest.fn(async (key: string, limit: RateLimit) =>
+      memory.consume(key, limit),
+    )
+    const store: RateLimitStore = { consume }
+    const first = createTestServer({ limit: 1, interval: 1000, store })
+    const second = createTestServer({ limit: 1, interval: 1000, store })
+
+    await expect(first('ping')).resolves.toMatchObject({ result: 'pong' })
+    await expect(second('ping')).resolves.toMatchObject({
+      error: { code: -32005 },
+    })
+    expect(consume).toHaveBeenCalledWith('[""]', { limit: 1, interval: 1000 })
+  })
+})
+
+describe('createMemoryRateLimitStore', () => {
+  it('refills buckets over time', () => {
+    const store = createMemoryRateLimitStore()
+    const limit = { limit: 1, interval: 1000 }
+
+    expect(store.consume('alice', limit)).toStrictEqual({
+      allowed: true,
+      retryAfter: 0,
+    })
+    expect(store.consume('alice', limit)).toStrictEqual({
+      allowed: false,
+      retryAfter: 1000,
+    })
+
+    jest.setSystemTime(1000)
+    expect(store.consume('alice', limit)).toMatchObject({ allowed: true })
+  })
+})
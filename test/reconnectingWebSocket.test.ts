@@ -0,0 +1,232 @@
+import type { ConnectionState, Handler, Service, Topic } from '../src'
+import {
+  ClosedError,
+  createReconnectingWebSocketClient,
+  createTopic,
+  createWebSocketServer,
+  RPCError,
+} from '../src'
+
+type TestService = Service<{
+  add(params: { x: number; y: number }): number
+  wait(): string
+}>
+
+// A minimal stand-in for a WebSocket, connected to another one in memory
+class FakeWebSocket extends EventTarget {
+  peer?: FakeWebSocket
+  closed = false
+
+  send(data: string) {
+    const peer = this.peer
+    queueMicrotask(() => {
+      if (!this.closed) {
+        peer?.dispatchEvent(new MessageEvent('message', { data }))
+      }
+    })
+  }
+
+  close() {
+    if (!this.closed) {
+      this.closed = true
+      queueMicrotask(() => {
+        this.dispatchEvent(new Event('close'))
+        this.peer?.close()
+      })
+    }
+  }
+}
+
+// A stand-in for a WebSocket server, that can be taken offline
+function createFakeServer<T extends Service = TestService>(
+  handler: Handler<T>,
+) {
+  const server = {
+    online: true,
+    connections: [] as FakeWebSocket[],
+
+    createWebSocket() {
+      const socket = new FakeWebSocket()
+      if (server.online) {
+        const serverSocket = new FakeWebSocket()
+        socket.peer = serverSocket
+        serverSocket.peer = socket
+        server.connections.push(serverSocket)
+        createWebSocketServer(serverSocket as unknown as WebSocket, handler)
+        queueMicrotask(() => socket.dispatchEvent(new Event('open')))
+      } else {
+        socket.close()
+      }
+      return socket as unknown as WebSocket
+    },
+  }
+  return server
+}
+
+function waitFor(condition: () => boolean) {
+  return new Promise<void>((resolve) => {
+    const interval = setInterval(() => {
+      if (condition()) {
+        clearInterval(interval)
+        resolve()
+      }
+    }, 1)
+  })
+}
+
+it('queues calls until connected', async () => {
+  const server = createFakeServer({
+    add: ({ x, y }) => x + y,
+    wait: () => 'done',
+  })
+  const states: ConnectionState[] = []
+  const client = createReconnectingWebSocketClient<TestService>('ws://test', {
+    createWebSocket: server.createWebSocket,
+    onStateChange: (state) => states.push(state),
+  })
+
+  await expect(client.call('add', { x: 1, y: 2 })).resolves.toBe(3)
+  expect(states).toStrictEqual(['connected'])
+
+  client.stop()
+  expect(states).toStrictEqual(['connected', 'closed'])
+})
+
+it('reconnects and rejects calls lost with the connection', async () => {
+  const server = createFakeServer({
+    add: ({ x, y }) => x + y,
+    wait: () => new Promise(() => {}),
+  })
+  const states: ConnectionState[] = []
+  const client = createReconnectingWebSocketClient<TestService>('ws://test', {
+    createWebSocket: server.createWebSocket,
+    minDelay: 1,
+    onStateChange: (state) => states.push(state),
+  })
+
+  const result = client.call('wait')
+  await waitFor(() => states.includes('connected'))
+  server.connections[0].close()
+
+  await expect(result).rejects.toStrictEqual(
+    new RPCError('Connection lost', { code: -32003 }),
+  )
+  await expect(client.call('add', { x: 1, y: 2 })).resolves.toBe(3)
+  expect(states).toStrictEqual([
+    'connected',
+    'disconnected',
+    'connecting',
+    'connected',
+  ])
+
+  client.stop()
+})
+
+it('replays calls lost with the connection when enabled', async () => {
+  let attempts = 0
+  const server = createFakeServer({
+    add: ({ x, y }) => x + y,
+    wait: () => {
+      attempts += 1
+      return attempts > 1 ? 'done' : new Promise(() => {})
+    },
+  })
+  const client = createReconnectingWebSocketClient<TestService>('ws://test', {
+    createWebSocket: server.createWebSocket,
+    minDelay: 1,
+    replay: (method) => method === 'wait',
+  })
+
+  const result = client.call('wait')
+  await waitFor(() => attempts === 1)
+  server.connections[0].close()
+
+  await expect(result).resolves.toBe('done')
+  expect(attempts).toBe(2)
+
+  client.stop()
+})
+
+it('closes after too many failed attempts', async () => {
+  const server = createFakeServer({
+    add: ({ x, y }) => x + y,
+    wait: () => 'done',
+  })
+  server.online = false
+  const states: ConnectionState[] = []
+  const client = createReconnectingWebSocketClient<TestService>('ws://test', {
+    createWebSocket: server.createWebSocket,
+    minDelay: 1,
+    maxRetries: 2,
+    onStateChange: (state) => states.push(state),
+  })
+
+  await expect(client.call('add', { x: 1, y: 2 })).rejects.toBeInstanceOf(
+    ClosedError,
+  )
+  expect(client.state).toBe('closed')
+  expect(states.filter((state) => state === 'disconnected')).toHaveLength(2)
+  expect(states.at(-1)).toBe('closed')
+})
+
+describe('after reconnecting', () => {
+  type LiveService = Service<{
+    ticks(): Topic<number>
+    count(): AsyncIterable<number>
+  }>
+
+  it('restores subscriptions', async () => {
+    const ticks = createTopic<number>()
+    const server = createFakeServer<LiveService>({
+      ticks: () => ticks,
+      async *count() {},
+    })
+    const client = createReconnectingWebSocketClient<LiveService>('ws://test', {
+      createWebSocket: server.createWebSocket,
+      minDelay: 1,
+    })
+    const listener = jest.fn()
+
+    const unsubscribe = await client.subscribe('ticks', listener)
+    server.connections[0].close()
+    await waitFor(() => ticks.size === 0)
+    await waitFor(() => ticks.size === 1)
+
+    ticks.emit(1)
+    await waitFor(() => listener.mock.calls.length > 0)
+    expect(listener).toHaveBeenCalledWith(1)
+
+    unsubscribe()
+    await waitFor(() => ticks.size === 0)
+    client.stop()
+  })
+
+  it('fails streams lost with the connection, even when replaying', async () => {
+    const server = createFakeServer<LiveService>({
+      ticks: () => createTopic(),
+      async *count() {
+        yield 1
+        await new Promise(() => {})
+      },
+    })
+    const client = createReconnectingWebSocketClient<LiveService>('ws://test', {
+      createWebSocket: server.createWebSocket,
+      minDelay: 1,
+      replay: true,
+    })
+
+    const values: number[] = []
+    const consume = (async () => {
+      for await (const value of client.stream('count')) {
+        values.push(value)
+        server.connections[0].close()
+      }
+    })()
+
+    await expect(consume).rejects.toStrictEqual(
+      new RPCError('Connection lost', { code: -32003 }),
+    )
+    expect(values).toStrictEqual([1])
+    client.stop()
+  })
+})
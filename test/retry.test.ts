@@ -0,0 +1,174 @@
+import type { Message, Payload, RetryOptions, Service } from '../src'
+import { createRetryInterceptor, RPCError } from '../src'
+import { createClient } from '../src/client'
+
+type TestService = Service<{
+  getUser(params: { id: string }): string
+  createOrder(params: { item: string }): number
+  ping(): string
+}>
+
+const connectionLost = { code: -32003, message: 'Connection lost' }
+
+// Creates a client that replies to each request with the next queued reply
+function createTestClient(
+  opts: RetryOptions,
+  replies: (Partial<Message> | Error)[],
+) {
+  const sent: Payload[] = []
+  const client = createClient<TestService>(
+    (receive) => ({
+      send(payload) {
+        sent.push(payload)
+        for (const message of Array.isArray(payload) ? payload : [payload]) {
+          if (!('id' in message) || message.id == null) {
+            continue
+          }
+          const reply = replies.shift()!
+          if (reply instanceof Error) {
+            throw reply
+          }
+          const { id } = message
+          queueMicrotask(() => {
+            receive({ jsonrpc: '2.0', id, ...reply } as Message)
+          })
+        }
+      },
+      stop() {},
+    }),
+    { interceptors: [createRetryInterceptor({ minDelay: 0, ...opts })] },
+  )
+  return { client, sent }
+}
+
+beforeEach(() => {
+  let nextId = 1
+  crypto.randomUUID = jest.fn(() => `${nextId++}`) as typeof crypto.randomUUID
+})
+
+it('retries safe methods', async () => {
+  const { client, sent } = createTestClient({ safe: true }, [
+    { error: connectionLost },
+    { error: { code: -32001, message: 'Timed out' } },
+    { result: 'Alice' },
+  ])
+  await expect(client.call('getUser', { id: 'a' })).resolves.toBe('Alice')
+  expect(sent).toHaveLength(3)
+})
+
+it('does not retry methods unless marked safe', async () => {
+  const { client, sent } = createTestClient({}, [
+    { error: connectionLost },
+    { result: 'Alice' },
+  ])
+  await expect(client.call('getUser', { id: 'a' })).rejects.toMatchObject(
+    connectionLost,
+  )
+  expect(sent).toHaveLength(1)
+})
+
+it('gives up after the maximum attempts', async () => {
+  const { client, sent } = createTestClient({ safe: true, maxAttempts: 2 }, [
+    { error: connectionLost },
+    { error: { code: -32003, message: 'Still lost' } },
+    { result: 'Alice' },
+  ])
+  await expect(client.call('getUser', { id: 'a' })).rejects.toMatchObject({
+    message: 'Still lost',
+  })
+  expect(sent).toHaveLength(2)
+})
+
+it('only retries the given error codes', async () => {
+  const { client, sent } = createTestClient({ safe: true, retryOn: [503] }, [
+    { error: { code: 503, message: 'Busy' } },
+    { error: { code: 500, message: 'Failed' } },
+  ])
+  await expect(client.call('getUser', { id: 'a' })).rejects.toStrictEqual(
+    new RPCError('Failed', { code: 500 }),
+  )
+  expect(sent).toHaveLength(2)
+})
+
+it('retries transport failures', async () => {
+  const { client, sent } = createTestClient({ safe: true }, [
+    new TypeError('fetch failed'),
+    { result: 'pong' },
+  ])
+  await expect(client.call('ping')).resolves.toBe('pong')
+  expect(sent).toHaveLength(2)
+})
+
+it('applies per-method policies', async () => {
+  const { client, sent } = createTestClient(
+    { safe: true, methods: { createOrder: { safe: false } } },
+    [{ error: connectionLost }, { result: 1 }],
+  )
+  await expect(client.call('createOrder', { item: 'shrimp' })).rejects.toThrow(
+    'Connection lost',
+  )
+  expect(sent).toHaveLength(1)
+})
+
+it('reuses an idempotency key for every attempt', async () => {
+  const { client, sent } = createTestClient(
+    { methods: { createOrder: { safe: true, idempotencyKey: 'requestId' } } },
+    [{ error: connectionLost }, { result: 1 }],
+  )
+  await expect(client.call('createOrder', { item: 'shrimp' })).resolves.toBe(1)
+  expect(sent).toStrictEqual([
+    {
+      jsonrpc: '2.0',
+      id: '2',
+      method: 'createOrder',
+      params: { item: 'shrimp', requestId: '1' },
+    },
+    {
+      jsonrpc: '2.0',
+      id: '3',
+      method: 'createOrder',
+      params: { item: 'shrimp', requestId: '1' },
+    },
+  ])
+})
+
+it('retries batch entries on their own', async () => {
+  const { client, sent } = createTestClient({ safe: true }, [
+    { result: 'Alice' },
+    { error: connectionLost },
+    { result: 'Bob' },
+  ])
+  const batch = client.createBatch()
+  const alice = batch.call('getUser', { id: 'a' })
+  const bob = batch.call('getUser', { id: 'b' })
+  await batch.flush()
+
+  await expect(alice).resolves.toBe('Alice')
+  await expect(bob).resolves.toBe('Bob')
+  expect(sent).toHaveLength(2)
+  expect(sent[1]).toMatchObject({ id: '3', params: { id: 'b' } })
+})
+
+it('does not retry notifications', async () => {
+  const { client, sent } = createTestClient({ safe: true }, [])
+  await client.notify('ping')
+  expect(sent).toHaveLength(1)
+})
+
+it('stops waiting to retry when the call is aborted', async () => {
+  const retryOn = jest.fn(() => true)
+  const { client, sent } = createTestClient(
+    { safe: true, minDelay: 60_000, maxDelay: 60_000, retryOn },
+    [{ error: connectionLost }, { result: 'Alice' }],
+  )
+  const controller = new AbortController()
+  const result = client
+    .withOptions({ signal: controller.signal })
+    .call('getUser', { id: 'a' })
+
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  expect(retryOn).toHaveBeenCalledTimes(1)
+  controller.abort()
+  await expect(result).rejects.toMatchObject({ code: -32800 })
+  expect(sent).toHaveLength(1)
+})
@@ -0,0 +1,126 @@
+import { PassThrough } from 'node:stream'
+
+import type { Payload, Service } from '../src'
+import {
+  createNodeStreamClient,
+  createNodeStreamServer,
+  createRichCodec,
+  msgpackCodec,
+} from '../src'
+
+class Money {
+  constructor(
+    readonly amount: bigint,
+    readonly currency: string,
+  ) {}
+}
+
+const codec = createRichCodec({
+  types: [
+    {
+      name: 'Money',
+      isType: (value) => value instanceof Money,
+      serialize: (money: Money) => [money.amount, money.currency],
+      deserialize: ([amount, currency]: [bigint, string]) =>
+        new Money(amount, currency),
+    },
+  ],
+})
+
+function roundTrip(result: unknown) {
+  return codec.decode(codec.encode({ jsonrpc: '2.0', id: 1, result }))
+}
+
+it('restores non-JSON values', () => {
+  const result = {
+    date: new Date('2024-01-02T03:04:05.678Z'),
+    big: 2n ** 70n,
+    map: new Map<unknown, unknown>([
+      ['a', 1n],
+      [{ b: 2 }, new Set([undefined])],
+    ]),
+    numbers: [Number.NaN, Number.POSITIVE_INFINITY, Number.NEGATIVE_INFINITY],
+    missing: undefined,
+    money: new Money(1234n, 'EUR'),
+  }
+  expect(roundTrip(result)).toStrictEqual({ jsonrpc: '2.0', id: 1, result })
+})
+
+it('restores invalid dates', () => {
+  const { result } = roundTrip(new Date(Number.NaN)) as { result: Date }
+  expect(result).toBeInstanceOf(Date)
+  expect(result.getTime()).toBeNaN()
+})
+
+it('leaves JSON values unchanged', () => {
+  const payload: Payload = [
+    { jsonrpc: '2.0', id: 1, method: 'add', params: [1, 'two', { x: null }] },
+    { jsonrpc: '2.0', method: 'ping', params: undefined },
+    { jsonrpc: '2.0', id: 2, error: { code: 1, message: 'Failed' } },
+  ]
+  expect(codec.encode(payload)).toBe(JSON.stringify(payload))
+})
+
+it('escapes objects with a $type property', () => {
+  const result = { $type: 'Date', value: 'not a date' }
+  expect(roundTrip(result)).toStrictEqual({ jsonrpc: '2.0', id: 1, result })
+})
+
+it('sends undefined results', () => {
+  expect(roundTrip(undefined)).toStrictEqual({
+    jsonrpc: '2.0',
+    id: 1,
+    result: undefined,
+  })
+})
+
+it('does not assign prototypes from keys', () => {
+  const decoded = codec.decode(
+    '{"jsonrpc":"2.0","id":1,"result":{"__proto__":{"polluted":true}}}',
+  ) as { result: object }
+  expect(Object.getPrototypeOf(decoded.result)).toBe(Object.prototype)
+})
+
+it('throws on unknown types', () => {
+  expect(() =>
+    codec.decode('{"jsonrpc":"2.0","id":1,"result":{"$type":"Nope"}}'),
+  ).toThrow('Unknown type Nope')
+})
+
+it('wraps other codecs', () => {
+  const packed = createRichCodec({ codec: msgpackCodec })
+  const payload = { jsonrpc: '2.0', id: 1, result: new Set([1n]) } as const
+  expect(packed.contentType).toBe(msgpackCodec.contentType)
+  expect(packed.decode(packed.encode(payload))).toStrictEqual(payload)
+})
+
+it('works between clients and servers', async () => {
+  type LedgerService = Service<{
+    balances(params: { since: Date }): Map<string, Money>
+  }>
+
+  const clientToServer = new PassThrough()
+  const serverToClient = new PassThrough()
+  const server = createNodeStreamServer<LedgerService>(
+    clientToServer,
+    serverToClient,
+    {
+      balances: ({ since }) =>
+        new Map([[since.toISOString(), new Money(5n, 'USD')]]),
+    },
+    { codec },
+  )
+  const client = createNodeStreamClient<LedgerService>(
+    serverToClient,
+    clientToServer,
+    { codec },
+  )
+
+  const since = new Date('2024-01-01T00:00:00.000Z')
+  await expect(client.call('balances', { since })).resolves.toStrictEqual(
+    new Map([[since.toISOString(), new Money(5n, 'USD')]]),
+  )
+
+  client.stop()
+  server.stop()
+})
@@ -1,5 +1,13 @@
-import type { Handler, Message, Service } from '../src'
-import { handle, RPCError } from '../src'
+import type {
+  Handler,
+  Message,
+  Middleware,
+  OpenRPCDocument,
+  Service,
+  ServiceDescription,
+  StandardSchemaV1,
+} from '../src'
+import { createOpenRPCDocument, createSession, handle, RPCError } from '../src'
 
 type TestService = Service<{
   add(param: { x: number; y: number }): number
@@ -15,6 +23,12 @@ type TestService = Service<{
   'rpc.test'(): void
 }>
 
+// Expected extras passed to handler methods
+const extras = {
+  signal: expect.any(AbortSignal),
+  reportProgress: expect.any(Function),
+}
+
 const mockHandler: Handler<TestService> = {
   add: jest.fn(({ x, y }) => x + y),
 
@@ -126,7 +140,7 @@ it.skip('handles missing params', async () => {
     undefined,
   )
 
-  expect(mockHandler.add).toHaveBeenCalledWith(undefined)
+  expect(mockHandler.add).toHaveBeenCalledWith(undefined, extras)
   expect(reply).toStrictEqual({
     jsonrpc: '2.0',
     id: 1,
@@ -145,7 +159,7 @@ it('handles notifications', async () => {
   )
 
   expect(mockHandler.add).toHaveBeenCalledTimes(1)
-  expect(mockHandler.add).toHaveBeenCalledWith({ x: 1, y: 2 })
+  expect(mockHandler.add).toHaveBeenCalledWith({ x: 1, y: 2 }, extras)
   expect(reply).toBeUndefined()
 })
 
@@ -161,7 +175,7 @@ it('handles calls', async () => {
   )
 
   expect(mockHandler.add).toHaveBeenCalledTimes(1)
-  expect(mockHandler.add).toHaveBeenCalledWith({ x: 1, y: 2 })
+  expect(mockHandler.add).toHaveBeenCalledWith({ x: 1, y: 2 }, extras)
   expect(reply).toStrictEqual({
     jsonrpc: '2.0',
     id: 0,
@@ -181,7 +195,7 @@ it('handles async calls', async () => {
   )
 
   expect(mockHandler.addAsync).toHaveBeenCalledTimes(1)
-  expect(mockHandler.addAsync).toHaveBeenCalledWith({ x: 1, y: 2 })
+  expect(mockHandler.addAsync).toHaveBeenCalledWith({ x: 1, y: 2 }, extras)
   expect(reply).toStrictEqual({
     jsonrpc: '2.0',
     id: 0,
@@ -200,7 +214,7 @@ it('supports array params (positional parameters)', async () => {
   )
 
   expect(mockHandler.addArray).toHaveBeenCalledTimes(1)
-  expect(mockHandler.addArray).toHaveBeenCalledWith([10, 20])
+  expect(mockHandler.addArray).toHaveBeenCalledWith([10, 20], extras)
 })
 
 describe('errors', () => {
@@ -346,7 +360,7 @@ describe('errors', () => {
     })
   })
 
-  it.skip('rejects methods with rpc. prefix', async () => {
+  it('rejects methods with rpc. prefix', async () => {
     const reply = await handle(
       {
         jsonrpc: '2.0',
@@ -538,4 +552,780 @@ describe('batching', () => {
       },
     ])
   })
+
+  describe('sequential', () => {
+    type OrderService = Service<{
+      step(params: { id: number; delay: number }): number
+    }>
+
+    function createOrderHandler() {
+      const events: string[] = []
+      const handler: Handler<OrderService> = {
+        async step({ id, delay }) {
+          events.push(`start ${id}`)
+          await new Promise((resolve) => setTimeout(resolve, delay))
+          events.push(`end ${id}`)
+          return id
+        },
+      }
+      return { handler, events }
+    }
+
+    const batch: Message[] = [
+      { jsonrpc: '2.0', id: 1, method: 'step', params: { id: 1, delay: 20 } },
+      { jsonrpc: '2.0', id: 2, method: 'step', params: { id: 2, delay: 0 } },
+    ]
+
+    it('runs batch messages concurrently by default', async () => {
+      const { handler, events } = createOrderHandler()
+
+      await handle(batch, handler, undefined)
+
+      expect(events).toStrictEqual(['start 1', 'start 2', 'end 2', 'end 1'])
+    })
+
+    it('runs batch messages in order', async () => {
+      const { handler, events } = createOrderHandler()
+
+      const reply = await handle(batch, handler, undefined, {
+        sequential: true,
+      })
+
+      expect(events).toStrictEqual(['start 1', 'end 1', 'start 2', 'end 2'])
+      expect(reply).toMatchObject([
+        { id: 1, result: 1 },
+        { id: 2, result: 2 },
+      ])
+    })
+
+    it('runs only the listed methods in order', async () => {
+      const { handler, events } = createOrderHandler()
+
+      await handle(batch, handler, undefined, { sequential: ['other'] })
+      expect(events).toStrictEqual(['start 1', 'start 2', 'end 2', 'end 1'])
+
+      events.length = 0
+      await handle(batch, handler, undefined, { sequential: ['step'] })
+      expect(events).toStrictEqual(['start 1', 'end 1', 'start 2', 'end 2'])
+    })
+
+    it('continues after failed messages', async () => {
+      const reply = await handle(
+        [
+          { jsonrpc: '2.0', id: 1, method: 'throwsAsyncError' },
+          { jsonrpc: '2.0', id: 2, method: 'add', params: { x: 1, y: 2 } },
+        ],
+        mockHandler,
+        undefined,
+        { sequential: true },
+      )
+
+      expect(reply).toMatchObject([
+        { id: 1, error: { message: 'async error' } },
+        { id: 2, result: 3 },
+      ])
+    })
+  })
+})
+
+describe('middleware', () => {
+  it('runs middleware in order around the method', async () => {
+    const calls: string[] = []
+    const outer: Middleware<string> = async (ctx, next) => {
+      calls.push(`outer ${ctx.method} ${ctx.context}`)
+      const result = await next()
+      calls.push('outer done')
+      return result
+    }
+    const inner: Middleware<string> = async (ctx, next) => {
+      calls.push(`inner ${ctx.message.id}`)
+      return ((await next()) as number) * 10
+    }
+
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'add',
+        params: { x: 1, y: 2 },
+      },
+      mockHandler,
+      'context',
+      { middleware: [outer, inner] },
+    )
+
+    expect(calls).toStrictEqual(['outer add context', 'inner 1', 'outer done'])
+    expect(reply).toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: 30,
+    })
+  })
+
+  it('lets middleware replace params', async () => {
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'add',
+        params: { x: 1, y: 2 },
+      },
+      mockHandler,
+      undefined,
+      {
+        middleware: [
+          (ctx, next) => {
+            ctx.params = { x: 10, y: 20 }
+            return next()
+          },
+        ],
+      },
+    )
+
+    expect(mockHandler.add).toHaveBeenCalledWith({ x: 10, y: 20 }, extras)
+    expect(reply).toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: 30,
+    })
+  })
+
+  it('lets middleware short-circuit with a result', async () => {
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'add',
+        params: { x: 1, y: 2 },
+      },
+      mockHandler,
+      undefined,
+      { middleware: [() => 'cached'] },
+    )
+
+    expect(mockHandler.add).toHaveBeenCalledTimes(0)
+    expect(reply).toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: 'cached',
+    })
+  })
+
+  it('lets middleware short-circuit with an error', async () => {
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'add',
+        params: { x: 1, y: 2 },
+      },
+      mockHandler,
+      undefined,
+      {
+        middleware: [
+          () => {
+            throw new RPCError('Unauthorized', { code: 401 })
+          },
+        ],
+      },
+    )
+
+    expect(mockHandler.add).toHaveBeenCalledTimes(0)
+    expect(reply).toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: {
+        code: 401,
+        message: 'Unauthorized',
+        data: undefined,
+      },
+    })
+  })
+
+  it('lets middleware translate errors', async () => {
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'throwsBasicError',
+      },
+      mockHandler,
+      undefined,
+      {
+        middleware: [
+          async (_ctx, next) => {
+            try {
+              return await next()
+            } catch (error) {
+              throw new RPCError('translated', {
+                code: 500,
+                data: (error as Error).message,
+              })
+            }
+          },
+        ],
+      },
+    )
+
+    expect(reply).toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: {
+        code: 500,
+        message: 'translated',
+        data: 'basic error',
+      },
+    })
+  })
+
+  it('does not run middleware for unknown methods', async () => {
+    const middleware = jest.fn()
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'noSuchMethod',
+      },
+      mockHandler,
+      undefined,
+      { middleware: [middleware] },
+    )
+
+    expect(middleware).toHaveBeenCalledTimes(0)
+    expect(reply).toMatchObject({ error: { code: -32601 } })
+  })
+})
+
+describe('schema validation', () => {
+  const numberPair: StandardSchemaV1<{ x: number; y: number }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate(value) {
+        const { x, y } = (value ?? {}) as Record<string, unknown>
+        if (typeof x !== 'number') {
+          return { issues: [{ message: 'Expected number', path: ['x'] }] }
+        }
+        if (typeof y !== 'number') {
+          return {
+            issues: [{ message: 'Expected number', path: [{ key: 'y' }] }],
+          }
+        }
+        return { value: { x, y } }
+      },
+    },
+  }
+
+  const smallNumber: StandardSchemaV1<number> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        Promise.resolve(
+          typeof value === 'number' && value < 100
+            ? { value }
+            : { issues: [{ message: 'Too big' }] },
+        ),
+    },
+  }
+
+  const schema = { add: { params: numberPair, result: smallNumber } }
+
+  it('calls methods with valid params', async () => {
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'add',
+        params: { x: 1, y: 2, extra: true },
+      },
+      mockHandler,
+      undefined,
+      { schema },
+    )
+
+    expect(mockHandler.add).toHaveBeenCalledWith({ x: 1, y: 2 }, extras)
+    expect(reply).toStrictEqual({ jsonrpc: '2.0', id: 1, result: 3 })
+  })
+
+  it('rejects invalid params', async () => {
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'add',
+        params: { x: 1, y: '2' },
+      },
+      mockHandler,
+      undefined,
+      { schema },
+    )
+
+    expect(mockHandler.add).toHaveBeenCalledTimes(0)
+    expect(reply).toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: {
+        code: -32602,
+        message: 'Invalid params',
+        data: { issues: [{ message: 'Expected number', path: ['y'] }] },
+      },
+    })
+  })
+
+  it('rejects invalid results', async () => {
+    const reply = await handle(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'add',
+        params: { x: 100, y: 2 },
+      },
+      mockHandler,
+      undefined,
+      { schema },
+    )
+
+    expect(reply).toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: {
+        code: -32603,
+        message: 'Internal error',
+        data: { issues: [{ message: 'Too big', path: undefined }] },
+      },
+    })
+  })
+})
+
+describe('streaming', () => {
+  type StreamService = Service<{
+    count(params: { to: number }): AsyncIterable<number>
+  }>
+
+  const onReturn = jest.fn()
+  const streamHandler: Handler<StreamService> = {
+    async *count({ to }) {
+      try {
+        for (let n = 1; n <= to; n++) {
+          yield n
+        }
+      } finally {
+        onReturn()
+      }
+    },
+  }
+
+  beforeEach(() => {
+    onReturn.mockClear()
+  })
+
+  it('replies with an array without a session', async () => {
+    const reply = await handle(
+      { jsonrpc: '2.0', id: 1, method: 'count', params: { to: 3 } },
+      streamHandler,
+    )
+
+    expect(reply).toStrictEqual({ jsonrpc: '2.0', id: 1, result: [1, 2, 3] })
+  })
+
+  it('replies with an array when the client is not streaming', async () => {
+    const send = jest.fn()
+    const session = createSession(send)
+
+    const reply = await handle(
+      { jsonrpc: '2.0', id: 1, method: 'count', params: { to: 3 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+
+    expect(reply).toStrictEqual({ jsonrpc: '2.0', id: 1, result: [1, 2, 3] })
+    expect(send).toHaveBeenCalledTimes(0)
+  })
+
+  it('sends values as credits are granted', async () => {
+    const sent: Message[] = []
+    const session = createSession((message) => sent.push(message))
+
+    await handle(
+      { jsonrpc: '2.0', method: '$/stream/pull', params: { id: 1, count: 2 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+    const reply = handle(
+      { jsonrpc: '2.0', id: 1, method: 'count', params: { to: 3 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(sent).toStrictEqual([
+      { jsonrpc: '2.0', method: '$/stream', params: { id: 1, value: 1 } },
+      { jsonrpc: '2.0', method: '$/stream', params: { id: 1, value: 2 } },
+    ])
+
+    await handle(
+      { jsonrpc: '2.0', method: '$/stream/pull', params: { id: 1, count: 2 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+
+    await expect(reply).resolves.toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: null,
+    })
+    expect(sent).toHaveLength(3)
+    expect(onReturn).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops streaming when cancelled', async () => {
+    const session = createSession(() => {})
+
+    await handle(
+      { jsonrpc: '2.0', method: '$/stream/pull', params: { id: 1, count: 1 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+    const reply = handle(
+      { jsonrpc: '2.0', id: 1, method: 'count', params: { to: 3 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    await handle(
+      { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+
+    await expect(reply).resolves.toMatchObject({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32800, message: 'Request cancelled' },
+    })
+    expect(onReturn).toHaveBeenCalledTimes(1)
+  })
+
+  it('forgets the oldest credits granted to requests that never arrive', async () => {
+    const sent: Message[] = []
+    const session = createSession((message) => sent.push(message))
+    function pull(id: number, count = 1) {
+      return handle(
+        { jsonrpc: '2.0', method: '$/stream/pull', params: { id, count } },
+        streamHandler,
+        undefined,
+        { session },
+      )
+    }
+
+    for (let id = 1; id <= 1001; id++) {
+      await pull(id)
+    }
+    await expect(
+      handle(
+        { jsonrpc: '2.0', id: 1, method: 'count', params: { to: 2 } },
+        streamHandler,
+        undefined,
+        { session },
+      ),
+    ).resolves.toStrictEqual({ jsonrpc: '2.0', id: 1, result: [1, 2] })
+
+    // Newer credits are kept
+    const reply = handle(
+      { jsonrpc: '2.0', id: 2, method: 'count', params: { to: 2 } },
+      streamHandler,
+      undefined,
+      { session },
+    )
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(sent).toStrictEqual([
+      { jsonrpc: '2.0', method: '$/stream', params: { id: 2, value: 1 } },
+    ])
+    await pull(2, 2)
+    await expect(reply).resolves.toMatchObject({ result: null })
+  })
+
+  it('ignores unknown protocol notifications', async () => {
+    const reply = await handle(
+      { jsonrpc: '2.0', method: '$/unknown', params: { id: 1 } },
+      streamHandler,
+    )
+
+    expect(reply).toBeUndefined()
+  })
+})
+
+describe('cancellation', () => {
+  type SlowService = Service<{
+    wait(): string
+  }>
+
+  function createSlowHandler() {
+    const onAbort = jest.fn()
+    const handler: Handler<SlowService> = {
+      wait: (params, { signal }) =>
+        new Promise((resolve) => {
+          signal.addEventListener('abort', () => {
+            onAbort()
+            // Handlers that finish anyway still reply with a cancelled error
+            resolve('finished')
+          })
+        }),
+    }
+    return { handler, onAbort }
+  }
+
+  it('aborts the signal when the client cancels', async () => {
+    const { handler, onAbort } = createSlowHandler()
+    const session = createSession(() => {})
+
+    const reply = handle(
+      { jsonrpc: '2.0', id: 1, method: 'wait' },
+      handler,
+      undefined,
+      { session },
+    )
+    await handle(
+      { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } },
+      handler,
+      undefined,
+      { session },
+    )
+
+    expect(onAbort).toHaveBeenCalledTimes(1)
+    await expect(reply).resolves.toMatchObject({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32800, message: 'Request cancelled' },
+    })
+  })
+
+  it('aborts the signal when the session stops', async () => {
+    const { handler, onAbort } = createSlowHandler()
+    const session = createSession(() => {})
+
+    const reply = handle(
+      { jsonrpc: '2.0', id: 1, method: 'wait' },
+      handler,
+      undefined,
+      { session },
+    )
+    session.stop()
+
+    expect(onAbort).toHaveBeenCalledTimes(1)
+    await expect(reply).resolves.toMatchObject({
+      error: { code: -32800 },
+    })
+  })
+
+  it('ignores cancellations for other requests', async () => {
+    const session = createSession(() => {})
+
+    const reply = handle(
+      { jsonrpc: '2.0', id: 1, method: 'add', params: { x: 1, y: 2 } },
+      mockHandler,
+      undefined,
+      { session },
+    )
+    await handle(
+      { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 2 } },
+      mockHandler,
+      undefined,
+      { session },
+    )
+
+    await expect(reply).resolves.toStrictEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: 3,
+    })
+  })
+})
+
+describe('progress', () => {
+  type IndexService = Service<{
+    index(params: { files: number }): number
+  }>
+
+  const indexHandler: Handler<IndexService> = {
+    index({ files }, { reportProgress }) {
+      for (let done = 1; done <= files; done++) {
+        reportProgress({ done, total: files })
+      }
+      return files
+    },
+  }
+
+  it('sends progress notifications linked to the request', async () => {
+    const sent: Message[] = []
+    const session = createSession((message) => sent.push(message))
+
+    const reply = await handle(
+      { jsonrpc: '2.0', id: 1, method: 'index', params: { files: 2 } },
+      indexHandler,
+      undefined,
+      { session },
+    )
+
+    expect(sent).toStrictEqual([
+      {
+        jsonrpc: '2.0',
+        method: '$/progress',
+        params: { id: 1, value: { done: 1, total: 2 } },
+      },
+      {
+        jsonrpc: '2.0',
+        method: '$/progress',
+        params: { id: 1, value: { done: 2, total: 2 } },
+      },
+    ])
+    expect(reply).toStrictEqual({ jsonrpc: '2.0', id: 1, result: 2 })
+  })
+
+  it('ignores progress for notifications', async () => {
+    const send = jest.fn()
+    const session = createSession(send)
+
+    await handle(
+      { jsonrpc: '2.0', method: 'index', params: { files: 2 } },
+      indexHandler,
+      undefined,
+      { session },
+    )
+
+    expect(send).toHaveBeenCalledTimes(0)
+  })
+})
+
+describe('discovery', () => {
+  const description: ServiceDescription<TestService> = {
+    info: { title: 'Test', version: '1.0.0' },
+    methods: {
+      add: {
+        summary: 'Adds two numbers',
+        params: {
+          type: 'object',
+          properties: { x: { type: 'number' }, y: { type: 'number' } },
+          required: ['x'],
+        },
+        result: { type: 'number' },
+      },
+      addArray: {
+        params: [
+          { name: 'x', schema: { type: 'number' } },
+          { name: 'y', schema: { type: 'number' } },
+        ],
+        deprecated: true,
+      },
+    },
+  }
+
+  it('replies to rpc.discover with an OpenRPC document', async () => {
+    const reply = (await handle(
+      { jsonrpc: '2.0', id: 1, method: 'rpc.discover' },
+      { add: mockHandler.add, addArray: mockHandler.addArray },
+      undefined,
+      { description },
+    )) as { result: OpenRPCDocument }
+
+    expect(JSON.parse(JSON.stringify(reply.result))).toStrictEqual({
+      openrpc: '1.3.2',
+      info: { title: 'Test', version: '1.0.0' },
+      methods: [
+        {
+          name: 'add',
+          summary: 'Adds two numbers',
+          params: [
+            { name: 'x', schema: { type: 'number' }, required: true },
+            { name: 'y', schema: { type: 'number' }, required: false },
+          ],
+          paramStructure: 'by-name',
+          result: { name: 'result', schema: { type: 'number' } },
+        },
+        {
+          name: 'addArray',
+          params: [
+            { name: 'x', schema: { type: 'number' } },
+            { name: 'y', schema: { type: 'number' } },
+          ],
+          paramStructure: 'by-position',
+          result: { name: 'result', schema: {} },
+          deprecated: true,
+        },
+      ],
+    })
+  })
+
+  it('lists methods without descriptions', () => {
+    const document = createOpenRPCDocument(
+      description,
+      Object.keys(mockHandler),
+    )
+    expect(document.methods.map((method) => method.name)).toStrictEqual([
+      'add',
+      'addAsync',
+      'addArray',
+      'throwsBasicError',
+      'throwsCustomError',
+      'throwsAsyncError',
+    ])
+    expect(document.methods[1]).toMatchObject({
+      name: 'addAsync',
+      params: [],
+      result: { name: 'result', schema: {} },
+    })
+  })
+
+  it('lists the methods of class instances', async () => {
+    type AddService = Service<{ add: TestService['add'] }>
+    class AddHandler implements Handler<AddService> {
+      offset = 0
+
+      add({ x, y }: { x: number; y: number }) {
+        return x + y + this.offset
+      }
+    }
+    const reply = (await handle<AddService, undefined>(
+      { jsonrpc: '2.0', id: 1, method: 'rpc.discover' },
+      new AddHandler(),
+      undefined,
+      { description: { info: description.info } },
+    )) as { result: OpenRPCDocument }
+
+    expect(reply.result.methods.map((method) => method.name)).toStrictEqual([
+      'add',
+    ])
+  })
+
+  it('runs middleware around rpc.discover', async () => {
+    const middleware: Middleware = (ctx) => {
+      throw new RPCError(`Unauthorized ${ctx.method}`, { code: 401 })
+    }
+    const reply = await handle(
+      { jsonrpc: '2.0', id: 1, method: 'rpc.discover' },
+      mockHandler,
+      undefined,
+      { description, middleware: [middleware] },
+    )
+    expect(reply).toMatchObject({
+      error: { code: 401, message: 'Unauthorized rpc.discover' },
+    })
+  })
+
+  it('does not reply to rpc.discover without a description', async () => {
+    const reply = await handle(
+      { jsonrpc: '2.0', id: 1, method: 'rpc.discover' },
+      mockHandler,
+      undefined,
+    )
+    expect(reply).toMatchObject({ error: { code: -32601 } })
+  })
 })
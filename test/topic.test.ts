@@ -0,0 +1,122 @@
+import { PassThrough } from 'node:stream'
+
+import type { Service, Topic } from '../src'
+import {
+  createNodeStreamClient,
+  createNodeStreamServer,
+  createTopic,
+  handle,
+} from '../src'
+
+type ChatService = Service<{
+  messages(params: { room: string }): Topic<string>
+  send(params: { room: string; text: string }): void
+}>
+
+function setup() {
+  const rooms = new Map<string, Topic<string>>()
+  function getRoom(room: string) {
+    let topic = rooms.get(room)
+    if (!topic) {
+      topic = createTopic<string>()
+      rooms.set(room, topic)
+    }
+    return topic
+  }
+
+  const clientToServer = new PassThrough({ encoding: 'utf8' })
+  const serverToClient = new PassThrough({ encoding: 'utf8' })
+  const server = createNodeStreamServer<ChatService>(
+    clientToServer,
+    serverToClient,
+    {
+      messages: ({ room }) => getRoom(room),
+      send: ({ room, text }) => getRoom(room).emit(text),
+    },
+  )
+  const client = createNodeStreamClient<ChatService>(
+    serverToClient,
+    clientToServer,
+  )
+  return { getRoom, clientToServer, server, client }
+}
+
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 10))
+}
+
+it('sends events to subscribers', async () => {
+  const { getRoom, server, client } = setup()
+  const lobby = jest.fn()
+  const kitchen = jest.fn()
+
+  await client.subscribe('messages', { room: 'lobby' }, lobby)
+  await client.subscribe('messages', { room: 'kitchen' }, kitchen)
+  expect(getRoom('lobby').size).toBe(1)
+
+  await client.notify('send', { room: 'lobby', text: 'hello' })
+  await client.notify('send', { room: 'lobby', text: 'world' })
+  await flush()
+
+  expect(lobby.mock.calls).toStrictEqual([['hello'], ['world']])
+  expect(kitchen).toHaveBeenCalledTimes(0)
+
+  client.stop()
+  server.stop()
+})
+
+it('stops sending events after unsubscribing', async () => {
+  const { getRoom, server, client } = setup()
+  const listener = jest.fn()
+
+  const unsubscribe = await client.subscribe(
+    'messages',
+    { room: 'lobby' },
+    listener,
+  )
+  unsubscribe()
+  await flush()
+  expect(getRoom('lobby').size).toBe(0)
+
+  getRoom('lobby').emit('hello')
+  await flush()
+  expect(listener).toHaveBeenCalledTimes(0)
+
+  client.stop()
+  server.stop()
+})
+
+it('ends subscriptions when the server stops', async () => {
+  const { getRoom, server, client } = setup()
+
+  await client.subscribe('messages', { room: 'lobby' }, () => {})
+  server.stop()
+  expect(getRoom('lobby').size).toBe(0)
+
+  client.stop()
+})
+
+it('ends subscriptions when the connection ends', async () => {
+  const { getRoom, clientToServer, server, client } = setup()
+
+  await client.subscribe('messages', { room: 'lobby' }, () => {})
+  clientToServer.end()
+  await flush()
+  expect(getRoom('lobby').size).toBe(0)
+
+  client.stop()
+  server.stop()
+})
+
+it('rejects subscriptions without a session', async () => {
+  const reply = await handle(
+    { jsonrpc: '2.0', id: 1, method: 'messages', params: { room: 'lobby' } },
+    { messages: () => createTopic<string>() },
+  )
+
+  expect(reply).toMatchObject({
+    jsonrpc: '2.0',
+    id: 1,
+    error: { code: -32603, message: 'Subscriptions are not supported' },
+  })
+})
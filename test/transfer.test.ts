@@ -0,0 +1,58 @@
+import type { Service } from '../src'
+import { createMessagePortPeer, transfer } from '../src'
+import { getTransferables } from '../src/transfer'
+
+type ImageService = Service<{
+  invert(params: { pixels: Uint8Array }): Uint8Array
+}>
+
+describe('getTransferables', () => {
+  it('finds marked values in payloads', () => {
+    const a = new ArrayBuffer(8)
+    const b = new Uint8Array(8)
+    const c = new ArrayBuffer(8)
+    const payload = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'send',
+      params: [transfer(a), { nested: [transfer(b)] }, c],
+    } as const
+    expect(getTransferables(payload)).toStrictEqual([a, b.buffer])
+  })
+
+  it('uses the given transferables', () => {
+    const buffer = new ArrayBuffer(8)
+    const frame = transfer({ buffer, width: 2 }, [buffer])
+    expect(getTransferables([frame, frame])).toStrictEqual([buffer])
+  })
+
+  it('returns nothing for unmarked values', () => {
+    expect(getTransferables({ a: new ArrayBuffer(8), b: [1, 'two'] })).toEqual(
+      [],
+    )
+  })
+})
+
+it('transfers params and results over MessagePorts', async () => {
+  const channel = new MessageChannel()
+  const server = createMessagePortPeer<ImageService>(channel.port2, {
+    invert({ pixels }) {
+      for (let i = 0; i < pixels.length; i++) {
+        pixels[i] = 255 - pixels[i]
+      }
+      return transfer(pixels)
+    },
+  })
+  const client = createMessagePortPeer<Service, ImageService>(channel.port1, {})
+
+  const pixels = new Uint8Array([0, 100, 255])
+  const promise = client.call('invert', { pixels: transfer(pixels) })
+  // The buffer was moved to the server rather than copied
+  expect(pixels.byteLength).toBe(0)
+  await expect(promise).resolves.toStrictEqual(new Uint8Array([255, 155, 0]))
+
+  client.stop()
+  server.stop()
+  channel.port1.close()
+  channel.port2.close()
+})
@@ -3,9 +3,17 @@
 import { expectTypeOf } from 'expect-type'
 
 import {
+  type CombinedService,
+  combineHandlers,
   createPostMessageClient,
   createPostMessageServer,
+  type InferService,
+  type Result,
+  RPCError,
   type Service,
+  type StandardSchemaV1,
+  type Throws,
+  type Topic,
 } from '../src'
 
 type TestService = Service<{
@@ -59,6 +67,78 @@ void client.call('add', { x: 1, y: 2 }, { x: 1, y: 2 })
 // @ts-expect-error Missing method
 void client.call('noSuchMethod', {})
 
+void client.withOptions({ timeout: 1000 }).call('add', { x: 1, y: 2 })
+void client
+  .createBatch()
+  .withOptions({ signal: AbortSignal.abort() })
+  .call('noParams')
+
+// @ts-expect-error Unknown option
+void client.withOptions({ noSuchOption: true })
+
+type NamespacedService = Service<{
+  add(params: { x: number; y: number }): number
+  'users.get': (params: { id: number }) => { name: string }
+  'users.roles.list': () => string[]
+}>
+
+const proxyClient = createPostMessageClient<NamespacedService>(window)
+expectTypeOf(proxyClient.proxy.add({ x: 1, y: 2 })).toEqualTypeOf<
+  Promise<number>
+>()
+expectTypeOf(proxyClient.proxy.users.get({ id: 1 })).toEqualTypeOf<
+  Promise<{ name: string }>
+>()
+expectTypeOf(proxyClient.proxy.users.roles.list()).toEqualTypeOf<
+  Promise<string[]>
+>()
+expectTypeOf(proxyClient.proxy.add.notify({ x: 1, y: 2 })).toEqualTypeOf<
+  Promise<void>
+>()
+void proxyClient.createBatch().proxy.users.get({ id: 1 })
+
+// @ts-expect-error Wrong params type
+void proxyClient.proxy.add({ x: 1 })
+
+// @ts-expect-error Missing method
+void proxyClient.proxy.users.delete({ id: 1 })
+
+type StreamService = Service<{
+  count(params: { to: number }): AsyncIterable<number>
+  add(params: { x: number; y: number }): number
+}>
+
+const streamClient = createPostMessageClient<StreamService>(window)
+expectTypeOf(streamClient.stream('count', { to: 3 })).toEqualTypeOf<
+  AsyncIterable<number>
+>()
+expectTypeOf(streamClient.call('count', { to: 3 })).toEqualTypeOf<
+  Promise<number[]>
+>()
+
+// @ts-expect-error Not a streaming method
+void streamClient.stream('add', { x: 1, y: 2 })
+
+type TopicService = Service<{
+  messages(params: { room: string }): Topic<{ text: string }>
+  ticks(): Topic<number>
+  add(params: { x: number; y: number }): number
+}>
+
+const topicClient = createPostMessageClient<TopicService>(window)
+void topicClient.subscribe('messages', { room: 'lobby' }, (message) => {
+  expectTypeOf(message).toEqualTypeOf<{ text: string }>()
+})
+void topicClient.subscribe('ticks', (tick) => {
+  expectTypeOf(tick).toEqualTypeOf<number>()
+})
+
+// @ts-expect-error Not a topic
+void topicClient.subscribe('add', { x: 1, y: 2 }, () => {})
+
+// @ts-expect-error Missing params
+void topicClient.subscribe('messages', () => {})
+
 const server = createPostMessageServer<TestService>(window, {
   add({ x, y }) {
     expectTypeOf(x).toEqualTypeOf<number>()
@@ -81,3 +161,106 @@ const server = createPostMessageServer<TestService>(window, {
   },
 })
 server.stop()
+
+declare const pointSchema: StandardSchemaV1<{ x: number; y: number }>
+declare const numberSchema: StandardSchemaV1<string, number>
+
+const inferredSchema = {
+  add: { params: pointSchema, result: numberSchema },
+  noParams: {},
+}
+type InferredService = InferService<typeof inferredSchema>
+
+const inferredClient = createPostMessageClient<InferredService>(window, {
+  schema: inferredSchema,
+})
+expectTypeOf(inferredClient.call('add', { x: 1, y: 2 })).toEqualTypeOf<
+  Promise<number>
+>()
+expectTypeOf(inferredClient.call('noParams')).toEqualTypeOf<Promise<unknown>>()
+
+// @ts-expect-error Wrong params type
+void inferredClient.call('add', { x: 1 })
+
+class NotFoundError extends RPCError<{ id: string }> {}
+class ForbiddenError extends RPCError<{ role: string }> {}
+
+type UserService = Service<{
+  getUser: Throws<
+    (params: { id: string }) => { name: string },
+    NotFoundError | ForbiddenError
+  >
+  getCount(): number
+}>
+
+const userClient = createPostMessageClient<UserService>(window, {
+  errors: { 404: NotFoundError, 403: ForbiddenError },
+})
+expectTypeOf(userClient.call('getUser', { id: '1' })).toEqualTypeOf<
+  Promise<{ name: string }>
+>()
+expectTypeOf(userClient.tryCall('getUser', { id: '1' })).toEqualTypeOf<
+  Promise<Result<{ name: string }, NotFoundError | ForbiddenError>>
+>()
+expectTypeOf(userClient.tryCall('getCount')).toEqualTypeOf<
+  Promise<Result<number>>
+>()
+
+createPostMessageServer<UserService>(window, {
+  getUser: ({ id }) => {
+    if (!id) {
+      throw new NotFoundError('Not found', { code: 404, data: { id } })
+    }
+    return { name: id }
+  },
+  getCount: () => 1,
+})
+
+void userClient.tryCall('getUser', { id: '1' }).then((result) => {
+  if (result.ok) {
+    expectTypeOf(result.value).toEqualTypeOf<{ name: string }>()
+  } else if (result.error instanceof NotFoundError) {
+    expectTypeOf(result.error.data).toEqualTypeOf<{ id: string } | undefined>()
+  }
+})
+
+// @ts-expect-error Errors must be RPCErrors
+type NotAnError = Throws<() => void, string>
+
+type CountService = Service<{ getCount(): number }>
+type AppServices = { users: UserService; '': CountService }
+type AppService = CombinedService<AppServices>
+
+expectTypeOf<AppService>().toEqualTypeOf<{
+  'users.getUser': UserService['getUser']
+  'users.getCount': UserService['getCount']
+  getCount: CountService['getCount']
+}>()
+
+const appHandler = combineHandlers<AppServices>({
+  users: { getUser: ({ id }) => ({ name: id }), getCount: () => 1 },
+  '': { getCount: () => 2 },
+})
+createPostMessageServer<AppService>(window, appHandler)
+
+createPostMessageServer<AppService>(
+  window,
+  combineHandlers<AppServices, MessageEvent>({
+    users: (event) => ({
+      getUser: () => ({ name: event.origin }),
+      getCount: () => 1,
+    }),
+    '': { getCount: () => 2 },
+  }),
+)
+
+combineHandlers<AppServices>({
+  // @ts-expect-error Wrong result type
+  users: { getUser: () => 'name', getCount: () => 1 },
+  '': { getCount: () => 2 },
+})
+
+const appClient = createPostMessageClient<AppService>(window)
+expectTypeOf(appClient.proxy.users.getUser({ id: '1' })).toEqualTypeOf<
+  Promise<{ name: string }>
+>()